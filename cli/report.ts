@@ -0,0 +1,100 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  exportFeedback,
+  filterFeedback,
+  formatSummary,
+  parseFeedbackRecords,
+  parseReportFilter,
+  summarizeFeedback,
+  type ExportFormat,
+  type TrendPeriod
+} from '../src/reporting';
+import type { FeedbackData } from '../src/types/feedback';
+
+const USAGE = `Usage: npm run report -- [options] [file ...]
+
+Reads submissions as a JSON array, NDJSON or a mock webhook store file
+(.mock-webhook/submissions.json). Reads stdin when no file or "-" is given.
+
+Options:
+  --format <name>     csv, json, ndjson, summary (text) or stats (JSON); default summary
+  --from <date>       keep submissions at or after this date or timestamp
+  --to <date>         keep submissions up to this timestamp, or through the end of this date
+  --scale <id>        keep one rating scale, e.g. nps-11
+  --rating <list>     keep these ratings, e.g. 1,2
+  --min-rating <n>    keep ratings of at least n
+  --max-rating <n>    keep ratings of at most n
+  --period <name>     trend period for summaries: day or week; default day
+  --top <n>           number of top terms in summaries; default 20
+  --out <file>        write to a file instead of stdout
+  --help              show this message
+`;
+
+const FORMATS = ['csv', 'json', 'ndjson', 'summary', 'stats'];
+
+const readInput = (file: string): string => readFileSync(file === '-' ? 0 : file, 'utf8');
+
+const render = (records: FeedbackData[], format: string, options: Record<string, string | undefined>): string => {
+  if (format === 'summary' || format === 'stats') {
+    const top = Number(options.top ?? 20);
+    if (!Number.isInteger(top) || top < 0) {
+      throw new Error(`Invalid "top" count: ${options.top}`);
+    }
+    if (options.period !== undefined && options.period !== 'day' && options.period !== 'week') {
+      throw new Error(`Unknown period "${options.period}"`);
+    }
+    const summary = summarizeFeedback(records, { period: options.period as TrendPeriod | undefined, topTerms: top });
+    return format === 'summary' ? formatSummary(summary) : `${JSON.stringify(summary, null, 2)}\n`;
+  }
+  return exportFeedback(records, format as ExportFormat);
+};
+
+const main = (): void => {
+  const { values: { help, ...options }, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'summary' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      scale: { type: 'string' },
+      rating: { type: 'string' },
+      'min-rating': { type: 'string' },
+      'max-rating': { type: 'string' },
+      period: { type: 'string' },
+      top: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+  if (help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (!FORMATS.includes(options.format)) {
+    throw new Error(`Unknown format "${options.format}"; expected one of ${FORMATS.join(', ')}`);
+  }
+
+  const filter = parseReportFilter(options);
+  const records = (positionals.length > 0 ? positionals : ['-']).flatMap((file) => {
+    const { records: parsed, rejected } = parseFeedbackRecords(readInput(file));
+    rejected.forEach(({ index, problems }) => {
+      console.warn(`[report] ${file === '-' ? 'stdin' : file}: skipped entry ${index + 1}: ${problems.join('; ')}`);
+    });
+    return parsed;
+  });
+
+  const output = render(filterFeedback(records, filter), options.format, options);
+  if (options.out) {
+    writeFileSync(options.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(`[report] ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
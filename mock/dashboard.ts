@@ -0,0 +1,164 @@
+// Self-contained page: data comes from the JSON endpoints, so it refreshes without a rebuild
+export const renderDashboard = (base: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>Mock webhook · Feedback dashboard</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; padding: 24px; background: #f9fafb; color: #1f2937; }
+    h1 { font-size: 1.5rem; margin: 0 0 16px; }
+    h2 { font-size: 1rem; margin: 0 0 12px; }
+    section { background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 16px; margin-bottom: 16px; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px; }
+    .bar { display: flex; align-items: center; gap: 8px; margin: 4px 0; font-size: 0.875rem; }
+    .bar span:first-child { width: 140px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .bar .fill { height: 14px; background: #3b82f6; border-radius: 4px; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    td.feedback { max-width: 420px; white-space: pre-wrap; }
+    .controls { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+    button, select, input { font: inherit; padding: 4px 8px; }
+    .muted { color: #6b7280; font-size: 0.875rem; }
+    .flag { color: #b45309; }
+  </style>
+</head>
+<body>
+  <h1>Mock webhook</h1>
+
+  <section>
+    <h2>Failure simulation</h2>
+    <div class="controls">
+      <label>Mode
+        <select id="mode">
+          <option value="none">Normal (200)</option>
+          <option value="error">Server error (500)</option>
+          <option value="reject">Rejection (400)</option>
+          <option value="flaky">Flaky (50% 503)</option>
+          <option value="slow">Slow response</option>
+          <option value="timeout">Timeout (never responds)</option>
+        </select>
+      </label>
+      <label>Delay (ms) <input id="delay" type="number" min="0" step="500" /></label>
+      <button id="apply">Apply</button>
+      <span class="muted">POST ${base}/submit — append <code>?simulate=error</code> to override per request</span>
+    </div>
+  </section>
+
+  <div class="grid">
+    <section>
+      <h2>Rating distribution</h2>
+      <div id="distribution" class="muted">No submissions yet</div>
+    </section>
+    <section>
+      <h2>Submissions per day</h2>
+      <div id="timeline" class="muted">No submissions yet</div>
+    </section>
+  </div>
+
+  <section>
+    <div class="controls" style="justify-content: space-between; margin-bottom: 12px;">
+      <h2 style="margin: 0;">Submissions (<span id="count">0</span>)</h2>
+      <div class="controls">
+        <a href="${base}/api/export?format=csv">Export CSV</a>
+        <a href="${base}/api/export?format=ndjson">Export NDJSON</a>
+        <button id="refresh">Refresh</button>
+        <button id="clear">Clear all</button>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr><th>Received</th><th>Rating</th><th>Sentiment</th><th>Feedback</th><th>Contact</th><th>Locale</th><th>Context</th><th>Spam</th></tr>
+      </thead>
+      <tbody id="rows"></tbody>
+    </table>
+  </section>
+
+  <script>
+    const base = ${JSON.stringify(base)};
+
+    const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, (ch) => ({
+      '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+    })[ch]);
+
+    const renderBars = (counts) => {
+      const max = Math.max(...Object.values(counts));
+      return Object.entries(counts).map(([label, count]) =>
+        '<div class="bar"><span title="' + escapeHtml(label) + '">' + escapeHtml(label) + '</span>' +
+        '<div class="fill" style="width:' + Math.max(4, (count / max) * 240) + 'px"></div><span>' + count + '</span></div>'
+      ).join('');
+    };
+
+    // Payloads from before schemaVersion 1 have no metadata or context
+    const describeContext = (payload) => {
+      const utm = payload.metadata ? payload.metadata.utm : {};
+      const entries = Object.entries(payload.context || {})
+        .concat(Object.entries(utm).map(([name, value]) => ['utm_' + name, value]));
+      return entries.map(([key, value]) => escapeHtml(key + ': ' + value)).join('<br>');
+    };
+
+    const load = async () => {
+      const submissions = await (await fetch(base + '/api/submissions')).json();
+      document.getElementById('count').textContent = submissions.length;
+
+      const distribution = {};
+      const perDay = {};
+      for (const { receivedAt, payload } of submissions) {
+        const key = payload.ratingScale + ' · ' + payload.rating + ' ' + payload.ratingLabel;
+        distribution[key] = (distribution[key] || 0) + 1;
+        const day = receivedAt.slice(0, 10);
+        perDay[day] = (perDay[day] || 0) + 1;
+      }
+
+      const sortedDistribution = Object.fromEntries(Object.entries(distribution).sort(([a], [b]) => a.localeCompare(b)));
+      const sortedDays = Object.fromEntries(Object.entries(perDay).sort(([a], [b]) => a.localeCompare(b)));
+      document.getElementById('distribution').innerHTML = submissions.length ? renderBars(sortedDistribution) : 'No submissions yet';
+      document.getElementById('timeline').innerHTML = submissions.length ? renderBars(sortedDays) : 'No submissions yet';
+
+      document.getElementById('rows').innerHTML = submissions.slice().reverse().map(({ receivedAt, payload }) =>
+        '<tr>' +
+        '<td>' + escapeHtml(new Date(receivedAt).toLocaleString()) + '</td>' +
+        '<td>' + escapeHtml(payload.rating + ' · ' + payload.ratingLabel) + '</td>' +
+        '<td' + (payload.sentimentMismatch ? ' class="flag" title="Text contradicts rating"' : '') + '>' +
+          escapeHtml(payload.sentiment.label + ' (' + payload.sentiment.polarity + ')') + (payload.sentimentMismatch ? ' ⚠' : '') + '</td>' +
+        '<td class="feedback">' + escapeHtml(payload.feedback) + '</td>' +
+        '<td>' + escapeHtml(payload.name) + '<br><span class="muted">' + escapeHtml(payload.email) + '</span></td>' +
+        '<td>' + escapeHtml(payload.locale) + '</td>' +
+        '<td class="muted">' + describeContext(payload) + '</td>' +
+        '<td' + (payload.spam.score >= 0.5 ? ' class="flag"' : '') + ' title="' + escapeHtml(payload.spam.signals.join(', ')) + '">' +
+          escapeHtml(payload.spam.score) + '</td>' +
+        '</tr>'
+      ).join('');
+    };
+
+    const loadSimulation = async () => {
+      const settings = await (await fetch(base + '/api/simulation')).json();
+      document.getElementById('mode').value = settings.mode;
+      document.getElementById('delay').value = settings.delayMs;
+    };
+
+    document.getElementById('apply').addEventListener('click', async () => {
+      await fetch(base + '/api/simulation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode: document.getElementById('mode').value,
+          delayMs: Number(document.getElementById('delay').value)
+        })
+      });
+      loadSimulation();
+    });
+
+    document.getElementById('refresh').addEventListener('click', load);
+    document.getElementById('clear').addEventListener('click', async () => {
+      if (confirm('Delete all stored submissions?')) {
+        await fetch(base + '/api/submissions', { method: 'DELETE' });
+        load();
+      }
+    });
+
+    load();
+    loadSimulation();
+    setInterval(load, 5000);
+  </script>
+</body>
+</html>`;
@@ -0,0 +1,40 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { FeedbackData } from '../src/types/feedback';
+
+export interface StoredSubmission {
+  receivedAt: string;
+  payload: FeedbackData;
+}
+
+// Flat JSON file: small enough for local testing and easy to inspect or hand-edit
+export const createSubmissionStore = (filePath: string) => {
+  const read = (): StoredSubmission[] => {
+    if (!existsSync(filePath)) {
+      return [];
+    }
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf8')) as StoredSubmission[];
+    } catch {
+      console.warn(`[mock-webhook] ${filePath} is not valid JSON, starting with an empty store`);
+      return [];
+    }
+  };
+
+  const write = (submissions: StoredSubmission[]): void => {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(submissions, null, 2));
+  };
+
+  return {
+    list: read,
+    has: (submissionId: string): boolean =>
+      read().some((entry) => entry.payload.submissionId === submissionId),
+    add: (payload: FeedbackData): void => {
+      write([...read(), { receivedAt: new Date().toISOString(), payload }]);
+    },
+    clear: (): void => write([])
+  };
+};
+
+export type SubmissionStore = ReturnType<typeof createSubmissionStore>;
@@ -0,0 +1,281 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { basename, resolve } from 'node:path';
+import { loadEnv, type Plugin } from 'vite';
+import { validateFeedbackData } from '../src/utils/validateFeedbackData';
+import { verifySignature } from '../src/delivery/signing';
+import { EXPORT_MIME_TYPES, exportFeedback, filterFeedback, parseReportFilter, type ExportFormat } from '../src/reporting';
+import type { FeedbackData } from '../src/types/feedback';
+import { createSubmissionStore } from './store';
+import { renderDashboard } from './dashboard';
+
+export const MOCK_WEBHOOK_BASE = '/__mock-webhook';
+
+export type SimulationMode = 'none' | 'error' | 'reject' | 'timeout' | 'slow' | 'flaky';
+
+const SIMULATION_MODES: SimulationMode[] = ['none', 'error', 'reject', 'timeout', 'slow', 'flaky'];
+
+interface SimulationSettings {
+  mode: SimulationMode;
+  delayMs: number;
+}
+
+interface MockWebhookOptions {
+  // Where received submissions are persisted, relative to the project root
+  storageFile?: string;
+  // Demo survey definitions served at /surveys/<id>.json, relative to the project root. They post to this
+  // mock, so they are never part of a build.
+  exampleSurveys?: string;
+}
+
+// Raw bytes, as multipart bodies carry binary file parts
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => { chunks.push(chunk); });
+    req.on('end', () => resolveBody(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+interface ReceivedBody {
+  // What the signature covers: the whole JSON body, or the "payload" part of a multipart body
+  signed: string;
+  parse: () => Promise<unknown>;
+}
+
+// Multipart file parts are folded back into base64 `data`, so stored submissions look the same for either encoding
+const readSubmission = async (req: IncomingMessage): Promise<ReceivedBody> => {
+  const body = await readBody(req);
+  const contentType = req.headers['content-type'] ?? '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    const text = body.toString('utf8');
+    return { signed: text, parse: async () => JSON.parse(text) as unknown };
+  }
+  const parts = await new Request('http://localhost', {
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body: new Uint8Array(body)
+  }).formData();
+  const payload = parts.get('payload');
+  const text = typeof payload === 'string' ? payload : '';
+  return {
+    signed: text,
+    parse: async () => {
+      const data = JSON.parse(text) as { attachments?: Array<{ part?: string; data?: string }> };
+      for (const attachment of data.attachments ?? []) {
+        const file = attachment.part ? parts.get(attachment.part) : null;
+        if (file instanceof Blob) {
+          attachment.data = Buffer.from(await file.arrayBuffer()).toString('base64');
+        }
+      }
+      return data;
+    }
+  };
+};
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const wait = (ms: number): Promise<void> => new Promise((resolveWait) => setTimeout(resolveWait, ms));
+
+const isSimulationMode = (value: unknown): value is SimulationMode =>
+  SIMULATION_MODES.includes(value as SimulationMode);
+
+// Dev-server receiver for FeedbackData POSTs with a dashboard and switchable failure modes.
+// Only active under `vite` (serve); production builds are unaffected.
+export const mockWebhookPlugin = (options: MockWebhookOptions = {}): Plugin => {
+  const simulation: SimulationSettings = { mode: 'none', delayMs: 5000 };
+
+  return {
+    name: 'mock-webhook',
+    apply: 'serve',
+
+    // Point the form at the mock receiver unless a real webhook URL is configured
+    config(_config, { mode }) {
+      const env = loadEnv(mode, process.cwd(), 'VITE_');
+      if (env.VITE_WEBHOOK_URL) {
+        return undefined;
+      }
+      return {
+        define: {
+          'import.meta.env.VITE_WEBHOOK_URL': JSON.stringify(`${MOCK_WEBHOOK_BASE}/submit`)
+        }
+      };
+    },
+
+    configureServer(server) {
+      // When set, the mock checks signatures exactly like a production receiver should. The MOCK_ prefix keeps the
+      // secret out of the bundle; forms fetch it from /api/signing-secret the way they would from a real backend.
+      const signingSecret = loadEnv(server.config.mode, process.cwd(), 'MOCK_').MOCK_WEBHOOK_SIGNING_SECRET;
+      const store = createSubmissionStore(
+        resolve(server.config.root, options.storageFile ?? '.mock-webhook/submissions.json')
+      );
+
+      const handleSubmit = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+        const requested = url.searchParams.get('simulate');
+        const mode = isSimulationMode(requested) ? requested : simulation.mode;
+
+        switch (mode) {
+          case 'timeout':
+            // Never answer; the browser eventually gives up on its own
+            req.on('close', () => res.destroy());
+            return;
+          case 'slow':
+            await wait(simulation.delayMs);
+            break;
+          case 'error':
+            sendJSON(res, 500, { success: false, message: 'Simulated server error' });
+            return;
+          case 'reject':
+            sendJSON(res, 400, { success: false, message: 'Simulated rejection' });
+            return;
+          case 'flaky':
+            if (Math.random() < 0.5) {
+              sendJSON(res, 503, { success: false, message: 'Simulated intermittent failure' });
+              return;
+            }
+            break;
+        }
+
+        const body = await readSubmission(req);
+
+        if (signingSecret) {
+          const header = (name: string): string | undefined => {
+            const value = req.headers[name];
+            return Array.isArray(value) ? value[0] : value;
+          };
+          const valid = await verifySignature(signingSecret, body.signed, header('x-signature'), header('x-signature-timestamp'));
+          if (!valid) {
+            sendJSON(res, 401, { success: false, message: 'Missing, invalid or expired signature' });
+            return;
+          }
+        }
+
+        let payload: unknown;
+        try {
+          payload = await body.parse();
+        } catch {
+          sendJSON(res, 400, { success: false, message: 'Body is not valid JSON or a multipart body with a JSON payload part' });
+          return;
+        }
+
+        const problems = validateFeedbackData(payload);
+        if (problems.length > 0) {
+          console.warn('[mock-webhook] Rejected invalid payload:', problems);
+          sendJSON(res, 422, { success: false, message: 'Invalid FeedbackData', errors: problems });
+          return;
+        }
+
+        const feedback = payload as FeedbackData;
+        // Same contract a real receiver should honour: replays of a stored submission are acknowledged, not stored twice
+        if (store.has(feedback.submissionId)) {
+          sendJSON(res, 200, { success: true, duplicate: true });
+          return;
+        }
+
+        store.add(feedback);
+        // A reference in the reply is shown on the thank-you screen
+        sendJSON(res, 200, { success: true, ticket: `MOCK-${store.list().length}` });
+      };
+
+      server.middlewares.use(MOCK_WEBHOOK_BASE, (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const route = `${req.method} ${url.pathname}`;
+
+        const handle = async (): Promise<void> => {
+          switch (route) {
+            case 'GET /':
+              res.setHeader('Content-Type', 'text/html; charset=utf-8');
+              res.end(renderDashboard(MOCK_WEBHOOK_BASE));
+              return;
+            case 'POST /submit':
+              await handleSubmit(req, res, url);
+              return;
+            case 'GET /api/submissions':
+              sendJSON(res, 200, store.list());
+              return;
+            case 'GET /api/submissions/count': {
+              // Response counter for survey caps; ?surveyId= counts one survey's responses
+              const surveyId = url.searchParams.get('surveyId');
+              const submissions = store.list().filter(({ payload }) => !surveyId || payload.context.surveyId === surveyId);
+              sendJSON(res, 200, { count: submissions.length });
+              return;
+            }
+            case 'GET /api/export': {
+              // Same filters as `npm run report`: ?format=csv&from=2026-01-01&min-rating=4
+              const format = url.searchParams.get('format') ?? 'csv';
+              if (!(format in EXPORT_MIME_TYPES)) {
+                sendJSON(res, 400, { success: false, message: `Unknown format "${format}"` });
+                return;
+              }
+              let records: FeedbackData[];
+              try {
+                records = filterFeedback(store.list().map(({ payload }) => payload), parseReportFilter(Object.fromEntries(url.searchParams)));
+              } catch (error) {
+                sendJSON(res, 400, { success: false, message: error instanceof Error ? error.message : 'Invalid filter' });
+                return;
+              }
+              res.setHeader('Content-Type', `${EXPORT_MIME_TYPES[format as ExportFormat]}; charset=utf-8`);
+              res.setHeader('Content-Disposition', `attachment; filename="submissions.${format}"`);
+              res.end(exportFeedback(records, format as ExportFormat));
+              return;
+            }
+            case 'DELETE /api/submissions':
+              store.clear();
+              sendJSON(res, 200, { success: true });
+              return;
+            case 'GET /api/signing-secret':
+              if (!signingSecret) {
+                sendJSON(res, 404, { success: false, message: 'MOCK_WEBHOOK_SIGNING_SECRET is not set' });
+                return;
+              }
+              sendJSON(res, 200, { secret: signingSecret });
+              return;
+            case 'GET /api/simulation':
+              sendJSON(res, 200, simulation);
+              return;
+            case 'POST /api/simulation': {
+              const body = JSON.parse((await readBody(req)).toString('utf8') || '{}') as Partial<SimulationSettings>;
+              if (body.mode !== undefined && !isSimulationMode(body.mode)) {
+                sendJSON(res, 400, { success: false, message: `Unknown mode "${body.mode}"` });
+                return;
+              }
+              simulation.mode = body.mode ?? simulation.mode;
+              simulation.delayMs = typeof body.delayMs === 'number' ? body.delayMs : simulation.delayMs;
+              sendJSON(res, 200, simulation);
+              return;
+            }
+            default:
+              next();
+          }
+        };
+
+        handle().catch((error: unknown) => {
+          console.error('[mock-webhook] Request failed:', error);
+          sendJSON(res, 500, { success: false, message: 'Mock webhook crashed' });
+        });
+      });
+
+      // Only answers for ids it has, so definitions in public/surveys/ are still served as usual
+      const surveysDir = resolve(server.config.root, options.exampleSurveys ?? 'examples/surveys');
+      server.middlewares.use('/surveys', (req, res, next) => {
+        const file = resolve(surveysDir, basename(new URL(req.url ?? '/', 'http://localhost').pathname));
+        if (req.method !== 'GET' || !file.endsWith('.json') || !existsSync(file)) {
+          next();
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(readFileSync(file));
+      });
+
+      server.httpServer?.once('listening', () => {
+        setTimeout(() => {
+          server.config.logger.info(`  ➜  Mock webhook dashboard: ${MOCK_WEBHOOK_BASE}/`);
+        });
+      });
+    }
+  };
+};
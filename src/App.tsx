@@ -1,13 +1,19 @@
 import React from 'react'
 import SentimentAnalysisForm from './components/SentimentAnalysisForm'
+import SurveyPage from './components/SurveyPage'
+import { useLocationPath } from './hooks/useLocationPath'
+import { matchSurveyPath } from './utils/survey'
 import './App.css'
 
+// /s/:surveyId serves a survey definition; every other path shows the default form
 function App(): React.ReactElement {
+  const surveyId = matchSurveyPath(useLocationPath())
+
   return (
     <div className="App">
-      <SentimentAnalysisForm />
+      {surveyId ? <SurveyPage key={surveyId} surveyId={surveyId} /> : <SentimentAnalysisForm />}
     </div>
   )
 }
 
-export default App
\ No newline at end of file
+export default App
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { createAnalyticsTracker, createDataLayerSink, type AnalyticsEvent, type AnalyticsSink } from '.';
+import EmojiRatingForm from '../components/SentimentAnalysisForm';
+
+const event = (type: 'rating_hovered' | 'rating_selected', rating = 1): AnalyticsEvent => ({
+  type,
+  rating,
+  viewId: 'view-1',
+  timestamp: '2026-10-19T10:00:00.000Z',
+  elapsedMs: 0,
+  stepId: 'rating'
+});
+
+const recordingSink = () => {
+  const batches: AnalyticsEvent[][] = [];
+  const sink: AnalyticsSink = { id: 'recording', send: (events) => void batches.push(events) };
+  return { sink, batches };
+};
+
+describe('createAnalyticsTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends a batch when it is full or when the flush interval passes', () => {
+    vi.useFakeTimers();
+    const { sink, batches } = recordingSink();
+    const tracker = createAnalyticsTracker({ sinks: [sink], batchSize: 2, flushIntervalMs: 1000 });
+
+    tracker.track(event('rating_selected', 1));
+    tracker.track(event('rating_selected', 2));
+    expect(batches.map((batch) => batch.length)).toEqual([2]);
+
+    tracker.track(event('rating_selected', 3));
+    vi.advanceTimersByTime(999);
+    expect(batches).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(batches[1].map((sent) => sent.type === 'rating_selected' && sent.rating)).toEqual([3]);
+  });
+
+  it('skips excluded events and keeps other sinks working when one fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { sink, batches } = recordingSink();
+    const broken: AnalyticsSink = { id: 'broken', send: () => Promise.reject(new Error('offline')) };
+    const tracker = createAnalyticsTracker({ sinks: [broken, sink], exclude: ['rating_hovered'] });
+
+    tracker.track(event('rating_hovered'));
+    tracker.track(event('rating_selected'));
+    tracker.flush();
+
+    expect(batches).toEqual([[event('rating_selected')]]);
+    await waitFor(() => expect(warn).toHaveBeenCalledWith('Analytics sink "broken" failed; dropped 1 events.', expect.any(Error)));
+  });
+
+  it('pushes one named entry per event to the data layer', () => {
+    const tracker = createAnalyticsTracker({ sinks: [createDataLayerSink('testLayer')] });
+
+    tracker.track(event('rating_selected', 2));
+    tracker.flush();
+
+    const host = window as unknown as Record<string, unknown>;
+    expect(host.testLayer).toEqual([{ ...event('rating_selected', 2), event: 'sentiment_form.rating_selected' }]);
+    delete host.testLayer;
+  });
+});
+
+describe('SentimentAnalysisForm analytics', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('reports the funnel from view to submit without field values', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ success: true }), { status: 200 })));
+    const { sink, batches } = recordingSink();
+    const analytics = { sinks: [sink], batchSize: 1 };
+    render(
+      <EmojiRatingForm
+        webhookUrl="https://example.test/webhook"
+        locale="en"
+        theme="light"
+        draft={false}
+        spamProtection={{ minTimeToSubmitMs: 0 }}
+        analytics={analytics}
+      />
+    );
+    const types = () => batches.flat().map((sent) => sent.type);
+
+    // Ends on Neutral so the default steps keep their generic questions
+    fireEvent.click(screen.getByRole('radio', { name: 'Satisfied' }));
+    fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    const feedback = screen.getByRole('textbox', { name: /what worked well/i });
+    fireEvent.focus(feedback);
+    fireEvent.change(feedback, { target: { value: 'Quick checkout.' } });
+    fireEvent.blur(feedback);
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email Address' }), { target: { value: 'ada@' } });
+    fireEvent.blur(screen.getByRole('textbox', { name: 'Email Address' }));
+
+    expect(types()).toEqual([
+      'form_viewed',
+      'step_viewed',
+      'rating_selected',
+      'rating_changed',
+      'step_viewed',
+      'field_focused',
+      'field_blurred',
+      'step_viewed',
+      'field_blurred',
+      'validation_error_shown'
+    ]);
+    expect(batches.flat()).toContainEqual(expect.objectContaining({ type: 'field_blurred', fieldId: 'feedback', filled: true }));
+    expect(JSON.stringify(batches)).not.toContain('Quick checkout');
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email Address' }), { target: { value: 'ada@example.com' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Full Name / Company Name' }), { target: { value: 'Ada Lovelace' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+
+    await waitFor(() => expect(types()).toContain('submit_succeeded'));
+    expect(types().slice(-2)).toEqual(['submit_attempted', 'submit_succeeded']);
+    expect(new Set(batches.flat().map((sent) => sent.viewId)).size).toBe(1);
+  });
+});
@@ -0,0 +1,15 @@
+export { createAnalyticsTracker, DEFAULT_BATCH_SIZE, DEFAULT_FLUSH_INTERVAL_MS } from './tracker';
+export { createConsoleSink, createDataLayerSink, createWebhookSink, resolveSink } from './sinks';
+export type { AnalyticsTracker } from './tracker';
+export type { WebhookSinkOptions } from './sinks';
+export type {
+  AnalyticsEvent,
+  AnalyticsEventBase,
+  AnalyticsEventPayloads,
+  AnalyticsEventType,
+  AnalyticsOptions,
+  AnalyticsSink,
+  AnalyticsSinkContext,
+  AnalyticsSinkId,
+  SubmitFailureReason
+} from './types';
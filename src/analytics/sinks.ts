@@ -0,0 +1,51 @@
+import type { AnalyticsEvent, AnalyticsSink, AnalyticsSinkId } from './types';
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  id: 'console',
+  send: (events) => {
+    events.forEach((event) => console.info(`[sentiment-form] ${event.type}`, event));
+  }
+});
+
+export interface WebhookSinkOptions {
+  headers?: Record<string, string>;
+}
+
+// Posts { events: [...] } as JSON. While the page unloads the batch goes out with sendBeacon, which cannot
+// carry custom headers; fetch with keepalive is the fallback when the beacon is refused.
+export const createWebhookSink = (url: string, options: WebhookSinkOptions = {}): AnalyticsSink => ({
+  id: 'webhook',
+  send: async (events, { unloading }) => {
+    const body = JSON.stringify({ events });
+    if (unloading && navigator.sendBeacon?.(url, new Blob([body], { type: 'application/json' }))) {
+      return;
+    }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body,
+      keepalive: unloading
+    });
+    if (!response.ok) {
+      throw new Error(`Analytics webhook error: ${response.status} ${response.statusText}`);
+    }
+  }
+});
+
+// One push per event, named "sentiment_form.<type>" for tag manager triggers. Tag managers merge pushes into
+// one state, so a property such as `fieldId` keeps its last value on later events that do not set it.
+export const createDataLayerSink = (name = 'dataLayer'): AnalyticsSink => ({
+  id: 'dataLayer',
+  send: (events) => {
+    const host = window as unknown as Record<string, unknown>;
+    const layer = Array.isArray(host[name]) ? (host[name] as unknown[]) : (host[name] = []);
+    events.forEach((event: AnalyticsEvent) => layer.push({ ...event, event: `sentiment_form.${event.type}` }));
+  }
+});
+
+export const resolveSink = (sink: AnalyticsSink | AnalyticsSinkId): AnalyticsSink => {
+  if (typeof sink !== 'string') {
+    return sink;
+  }
+  return sink === 'console' ? createConsoleSink() : createDataLayerSink();
+};
@@ -0,0 +1,59 @@
+import { resolveSink } from './sinks';
+import type { AnalyticsEvent, AnalyticsOptions } from './types';
+
+export const DEFAULT_BATCH_SIZE = 20;
+export const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+export interface AnalyticsTracker {
+  track: (event: AnalyticsEvent) => void;
+  // Sends whatever is buffered now; the tracker stays usable afterwards
+  flush: (unloading?: boolean) => void;
+}
+
+export const createAnalyticsTracker = (options: AnalyticsOptions): AnalyticsTracker => {
+  const sinks = options.sinks.map(resolveSink);
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const excluded = new Set(options.exclude ?? []);
+  let buffer: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Analytics is best effort: a failing sink loses its batch but never affects the form or the other sinks
+  const reportFailure = (sinkId: string, count: number, error: unknown): void => {
+    console.warn(`Analytics sink "${sinkId}" failed; dropped ${count} events.`, error);
+  };
+
+  const flush = (unloading = false): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (buffer.length === 0) {
+      return;
+    }
+    const batch = buffer;
+    buffer = [];
+    for (const sink of sinks) {
+      try {
+        // Called synchronously so a sink can still use sendBeacon while the page unloads
+        void Promise.resolve(sink.send(batch, { unloading })).catch((error: unknown) =>
+          reportFailure(sink.id, batch.length, error));
+      } catch (error) {
+        reportFailure(sink.id, batch.length, error);
+      }
+    }
+  };
+
+  return {
+    track: (event) => {
+      if (excluded.has(event.type)) {
+        return;
+      }
+      buffer.push(event);
+      if (buffer.length >= batchSize) {
+        flush();
+      } else if (timer === undefined) {
+        timer = setTimeout(() => flush(), flushIntervalMs);
+      }
+    },
+    flush
+  };
+};
@@ -0,0 +1,58 @@
+export type SubmitFailureReason = 'validation' | 'rate-limited' | 'rejected' | 'error';
+
+// Event-specific properties. Field events carry the field id and whether it is filled, never its value.
+export interface AnalyticsEventPayloads {
+  form_viewed: { ratingScale: string; locale: string; stepCount: number };
+  // Also sent for the first step, so the gap between consecutive step_viewed events is the time spent on a step
+  step_viewed: { stepIndex: number; stepCount: number };
+  rating_hovered: { rating: number };
+  rating_selected: { rating: number };
+  rating_changed: { rating: number; previousRating: number };
+  field_focused: { fieldId: string };
+  field_blurred: { fieldId: string; filled: boolean };
+  // `fieldId` is "rating" for the rating scale; `message` is in the form's locale
+  validation_error_shown: { fieldId: string; message: string };
+  submit_attempted: { rating: number | null };
+  submit_succeeded: { submissionId: string; rating: number; queued: boolean };
+  submit_failed: { reason: SubmitFailureReason; message: string | null };
+  form_reset: Record<never, never>;
+}
+
+export type AnalyticsEventType = keyof AnalyticsEventPayloads;
+
+export interface AnalyticsEventBase<T extends AnalyticsEventType = AnalyticsEventType> {
+  type: T;
+  // Random id for one showing of the form; "Submit another" starts a new view
+  viewId: string;
+  timestamp: string;
+  // Milliseconds since the view's form_viewed event
+  elapsedMs: number;
+  // Wizard step shown when the event happened
+  stepId: string;
+}
+
+export type AnalyticsEvent = {
+  [T in AnalyticsEventType]: AnalyticsEventBase<T> & AnalyticsEventPayloads[T];
+}[AnalyticsEventType];
+
+export interface AnalyticsSinkContext {
+  // The page is being hidden or unloaded: asynchronous requests may be cancelled, so prefer sendBeacon
+  unloading: boolean;
+}
+
+export interface AnalyticsSink {
+  id: string;
+  // Receives each batch in the order the events happened. Failures are logged and the batch is dropped.
+  send: (events: AnalyticsEvent[], context: AnalyticsSinkContext) => void | Promise<void>;
+}
+
+export type AnalyticsSinkId = 'console' | 'dataLayer';
+
+export interface AnalyticsOptions {
+  sinks: Array<AnalyticsSink | AnalyticsSinkId>;
+  // A batch is sent once it holds this many events, or `flushIntervalMs` after its first event
+  batchSize?: number;
+  flushIntervalMs?: number;
+  // Event types that are never sent, e.g. ['rating_hovered']
+  exclude?: AnalyticsEventType[];
+}
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFile, faPaperclip, faSpinner, faXmark } from '@fortawesome/free-solid-svg-icons';
+import type { FieldValue, FormField } from '../types/formSchema';
+import type { Translate } from '../i18n';
+import {
+  attachmentDataUrl,
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_FILES,
+  formatFileSize,
+  isAttachmentList
+} from '../utils/attachments';
+import { focusRingClasses, secondaryButtonClasses } from '../theme/classes';
+
+interface AttachmentFieldProps {
+  field: FormField;
+  value: FieldValue;
+  controlId: string;
+  t: Translate;
+  onChange: (value: FieldValue) => void;
+  onBlur: () => void;
+  // Picked and dropped files are read by the form, which holds submit until every read has finished
+  onAddFiles: (files: File[]) => void;
+  isReadingFiles: boolean;
+}
+
+// Drop zone, file picker and preview list. Pasted images are handled by the form, which knows which file
+// field is on the current step.
+const AttachmentField: React.FC<AttachmentFieldProps> = ({
+  field,
+  value,
+  controlId,
+  t,
+  onChange,
+  onBlur,
+  onAddFiles,
+  isReadingFiles
+}) => {
+  const attachments = isAttachmentList(value) ? value : [];
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>): void => {
+    e.preventDefault();
+    setIsDragging(false);
+    onAddFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const limits = t('attachments.limits', {
+    count: field.validation?.maxFiles ?? DEFAULT_MAX_FILES,
+    size: formatFileSize(field.validation?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE)
+  });
+
+  return (
+    <div>
+      <div
+        onDragOver={(e: React.DragEvent<HTMLDivElement>) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`p-4 border-2 border-dashed rounded-[var(--sf-radius)] text-center text-sm transition-colors duration-200 text-[color:var(--sf-text-muted)] ${
+          isDragging
+            ? 'border-[color:var(--sf-primary)] bg-[var(--sf-info-surface)]'
+            : 'border-[color:var(--sf-input-border)]'
+        }`}
+      >
+        <p className="mb-2">{t('attachments.dropzone')}</p>
+        <button
+          type="button"
+          id={controlId}
+          data-field-id={field.id}
+          onClick={() => inputRef.current?.click()}
+          onBlur={onBlur}
+          className={`${secondaryButtonClasses} px-3 py-1.5 text-sm`}
+        >
+          <FontAwesomeIcon icon={faPaperclip} className="me-2" />
+          {t('attachments.choose')}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={field.validation?.accept?.join(',')}
+          tabIndex={-1}
+          aria-hidden="true"
+          className="hidden"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            onAddFiles(Array.from(e.target.files ?? []));
+            // Lets the same file be picked again after it was removed
+            e.target.value = '';
+          }}
+        />
+        <p className="mt-2 text-xs text-[color:var(--sf-text-subtle)]">{limits}</p>
+      </div>
+
+      <div aria-live="polite">
+        {isReadingFiles && (
+          <p className="flex items-center mt-2 text-sm text-[color:var(--sf-text-subtle)]">
+            <FontAwesomeIcon icon={faSpinner} spin className="me-1" />
+            {t('attachments.processing')}
+          </p>
+        )}
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center gap-3 p-2 border rounded-[var(--sf-radius)] text-sm text-start border-[color:var(--sf-border)] text-[color:var(--sf-text)]"
+            >
+              {attachment.data && attachment.type.startsWith('image/') ? (
+                <img src={attachmentDataUrl(attachment)} alt="" className="h-10 w-10 shrink-0 rounded object-cover" />
+              ) : (
+                <span className="h-10 w-10 shrink-0 flex items-center justify-center text-[color:var(--sf-text-subtle)]">
+                  <FontAwesomeIcon icon={faFile} />
+                </span>
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{attachment.name}</span>
+                <span className="block text-xs text-[color:var(--sf-text-subtle)]">{formatFileSize(attachment.size)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(attachments.filter((candidate) => candidate.id !== attachment.id))}
+                aria-label={t('attachments.remove', { name: attachment.name })}
+                title={t('attachments.remove', { name: attachment.name })}
+                className={`h-8 w-8 shrink-0 rounded-full flex items-center justify-center hover:bg-[var(--sf-surface-hover)] ${focusRingClasses}`}
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentField;
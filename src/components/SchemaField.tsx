@@ -0,0 +1,221 @@
+import React, { useId } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExclamationCircle, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import type { FieldValue, FormField } from '../types/formSchema';
+import type { Translate } from '../i18n';
+import { isStringList } from '../utils/attachments';
+import { choiceInputClasses, errorTextClasses } from '../theme/classes';
+import AttachmentField from './AttachmentField';
+
+interface SchemaFieldProps {
+  field: FormField;
+  value: FieldValue;
+  error?: string;
+  // An async validator is checking the current value
+  isValidating?: boolean;
+  // File fields: files added to the field are still being read
+  isReadingFiles?: boolean;
+  t: Translate;
+  onChange: (value: FieldValue) => void;
+  onBlur: () => void;
+  onAddFiles?: (files: File[]) => void;
+}
+
+// Controls carry data-field-id so the form can move focus to the first invalid field
+const SchemaField: React.FC<SchemaFieldProps> = ({
+  field,
+  value,
+  error,
+  isValidating = false,
+  isReadingFiles = false,
+  t,
+  onChange,
+  onBlur,
+  onAddFiles = () => {}
+}) => {
+  const hasError = !!error;
+  const baseId = useId();
+  const controlId = `${baseId}-control`;
+  const errorId = `${baseId}-error`;
+  const isGroup = field.type === 'radio' || field.type === 'checkboxGroup' || field.type === 'file';
+
+  // Shared by every single control; groups put the same wiring on their fieldset
+  const a11yProps = {
+    'data-field-id': field.id,
+    'aria-invalid': hasError || undefined,
+    'aria-describedby': hasError ? errorId : undefined,
+    'aria-required': field.required || undefined
+  };
+
+  const labelClasses = 'block text-sm font-medium transition-colors duration-200 text-start text-[color:var(--sf-text)] mb-2';
+
+  const controlClasses = `w-full p-3 border rounded-[var(--sf-radius)] focus:ring-2 focus:border-transparent focus:outline-none transition-all duration-200 text-sm sm:text-base bg-[var(--sf-input-background)] text-[color:var(--sf-input-text)] placeholder:text-[color:var(--sf-placeholder)] ${
+    hasError
+      ? 'border-[color:var(--sf-danger)] focus:ring-[color:var(--sf-danger)]'
+      : 'border-[color:var(--sf-input-border)] focus:ring-[color:var(--sf-focus-ring)]'
+  }`;
+
+  const optionLabelClasses = 'flex items-center gap-2 text-sm text-start cursor-pointer text-[color:var(--sf-text)]';
+
+  const textValue = typeof value === 'string' ? value : '';
+  const selectedValues = isStringList(value) ? value : [];
+  const label = t(field.label);
+  const placeholder = field.placeholder ? t(field.placeholder) : undefined;
+
+  const renderControl = (): React.ReactElement => {
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            id={controlId}
+            {...a11yProps}
+            value={textValue}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange(e.target.value)}
+            onBlur={onBlur}
+            className={`${controlClasses} resize-none`}
+            rows={field.rows ?? 4}
+            placeholder={placeholder}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            id={controlId}
+            {...a11yProps}
+            value={textValue}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value)}
+            onBlur={onBlur}
+            className={controlClasses}
+          >
+            <option value="">{placeholder ?? t('fields.selectPlaceholder')}</option>
+            {field.options?.map((option) => (
+              <option key={option.value} value={option.value}>{t(option.label)}</option>
+            ))}
+          </select>
+        );
+      case 'checkbox':
+        return (
+          <label htmlFor={controlId} className={optionLabelClasses}>
+            <input
+              id={controlId}
+              {...a11yProps}
+              type="checkbox"
+              checked={value === true}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.checked)}
+              onBlur={onBlur}
+              className={`${choiceInputClasses} rounded`}
+            />
+            <span>{label}</span>
+          </label>
+        );
+      case 'checkboxGroup':
+        return (
+          <div className="space-y-2" onBlur={onBlur}>
+            {field.options?.map((option) => (
+              <label key={option.value} className={optionLabelClasses}>
+                <input
+                  type="checkbox"
+                  name={controlId}
+                  data-field-id={field.id}
+                  value={option.value}
+                  checked={selectedValues.includes(option.value)}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(
+                    e.target.checked
+                      ? [...selectedValues, option.value]
+                      : selectedValues.filter((selected) => selected !== option.value)
+                  )}
+                  className={`${choiceInputClasses} rounded`}
+                />
+                <span>{t(option.label)}</span>
+              </label>
+            ))}
+          </div>
+        );
+      case 'radio':
+        return (
+          <div className="space-y-2" onBlur={onBlur}>
+            {field.options?.map((option) => (
+              <label key={option.value} className={optionLabelClasses}>
+                <input
+                  type="radio"
+                  name={controlId}
+                  data-field-id={field.id}
+                  value={option.value}
+                  checked={textValue === option.value}
+                  onChange={() => onChange(option.value)}
+                  className={choiceInputClasses}
+                />
+                <span>{t(option.label)}</span>
+              </label>
+            ))}
+          </div>
+        );
+      case 'file':
+        return (
+          <AttachmentField
+            field={field}
+            value={value}
+            controlId={controlId}
+            t={t}
+            onChange={onChange}
+            onBlur={onBlur}
+            onAddFiles={onAddFiles}
+            isReadingFiles={isReadingFiles}
+          />
+        );
+      default:
+        return (
+          <input
+            id={controlId}
+            {...a11yProps}
+            type={field.type === 'email' ? 'email' : 'text'}
+            autoComplete={field.type === 'email' ? 'email' : undefined}
+            value={textValue}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value)}
+            onBlur={onBlur}
+            className={controlClasses}
+            placeholder={placeholder}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="mb-4 sm:mb-6 transition-all duration-500 ease-in-out">
+      {isGroup ? (
+        <fieldset
+          aria-invalid={a11yProps['aria-invalid']}
+          aria-describedby={a11yProps['aria-describedby']}
+        >
+          <legend className={labelClasses}>{label}</legend>
+          {renderControl()}
+        </fieldset>
+      ) : (
+        <>
+          {field.type !== 'checkbox' && (
+            <label htmlFor={controlId} className={labelClasses}>
+              {label}
+            </label>
+          )}
+          {renderControl()}
+        </>
+      )}
+      {/* Always rendered so screen readers announce the message when it appears */}
+      <div id={errorId} aria-live="polite">
+        {error ? (
+          <div className={`flex items-center mt-1 ${errorTextClasses}`}>
+            <FontAwesomeIcon icon={faExclamationCircle} className="me-1" />
+            <span>{error}</span>
+          </div>
+        ) : isValidating && (
+          <div className="flex items-center mt-1 text-sm text-[color:var(--sf-text-subtle)]">
+            <FontAwesomeIcon icon={faSpinner} spin className="me-1" />
+            <span>{t('validation.checking')}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaField;
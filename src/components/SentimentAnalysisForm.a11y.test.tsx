@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import EmojiRatingForm, { type EmojiRatingFormProps } from './SentimentAnalysisForm';
+import { findA11yViolations } from '../test/axe';
+
+const renderForm = (props: Partial<EmojiRatingFormProps> = {}) =>
+  render(
+    <EmojiRatingForm
+      webhookUrl="https://example.test/webhook"
+      locale="en"
+      theme="light"
+      draft={false}
+      spamProtection={{ minTimeToSubmitMs: 0 }}
+      {...props}
+    />
+  );
+
+const respondWith = (status: number, body: unknown = { success: status < 400 }) =>
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status })));
+
+const expectAccessible = async (element: Element) => {
+  expect(await findA11yViolations(element)).toEqual([]);
+};
+
+const getRadios = () => within(screen.getByRole('radiogroup')).getAllByRole('radio');
+
+const clickNext = () => fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+// Neutral avoids the rating branches so the default three steps keep their generic questions
+const completeForm = () => {
+  fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+  clickNext();
+  fireEvent.change(screen.getByRole('textbox', { name: /what worked well/i }), {
+    target: { value: 'Checkout was quick, but delivery took a while.' }
+  });
+  clickNext();
+  fireEvent.change(screen.getByRole('textbox', { name: 'Full Name / Company Name' }), { target: { value: 'Ada Lovelace' } });
+  fireEvent.change(screen.getByRole('textbox', { name: 'Email Address' }), { target: { value: 'ada@example.com' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+};
+
+describe('SentimentAnalysisForm accessibility', () => {
+  beforeEach(() => respondWith(200));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('has no axe violations on first render', async () => {
+    const { container } = renderForm();
+    await expectAccessible(container);
+  });
+
+  it('exposes the rating as a labelled radio group with a single tab stop', () => {
+    renderForm();
+
+    expect(screen.getByRole('radiogroup', { name: 'Please rate your overall satisfaction' })).toBeTruthy();
+    const radios = getRadios();
+    expect(radios.map((radio) => radio.getAttribute('aria-checked'))).toEqual(['false', 'false', 'false']);
+    expect(radios.map((radio) => radio.tabIndex)).toEqual([0, -1, -1]);
+
+    fireEvent.click(radios[2]);
+    expect(radios.map((radio) => radio.tabIndex)).toEqual([-1, -1, 0]);
+    expect(radios[2].getAttribute('aria-checked')).toBe('true');
+  });
+
+  it('moves and selects with the arrow keys, Home and End', () => {
+    renderForm();
+    const radios = getRadios();
+    radios[0].focus();
+
+    fireEvent.keyDown(radios[0], { key: 'ArrowRight' });
+    expect(radios[1].getAttribute('aria-checked')).toBe('true');
+    expect(document.activeElement).toBe(radios[1]);
+
+    fireEvent.keyDown(radios[1], { key: 'End' });
+    expect(document.activeElement).toBe(radios[2]);
+
+    fireEvent.keyDown(radios[2], { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(radios[0]);
+
+    fireEvent.keyDown(radios[0], { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(radios[2]);
+
+    fireEvent.keyDown(radios[2], { key: 'Home' });
+    expect(radios[0].getAttribute('aria-checked')).toBe('true');
+  });
+
+  it('mirrors horizontal arrow keys in right-to-left locales', () => {
+    renderForm({ locale: 'ar' });
+    const radios = getRadios();
+    radios[0].focus();
+
+    fireEvent.keyDown(radios[0], { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(radios[1]);
+  });
+
+  it('describes a missing rating and focuses the group', async () => {
+    const { container } = renderForm();
+    clickNext();
+
+    const group = screen.getByRole('radiogroup');
+    expect(group.getAttribute('aria-invalid')).toBe('true');
+    const description = document.getElementById(group.getAttribute('aria-describedby') ?? '');
+    expect(description?.textContent).toBe('Please select a rating');
+    expect(description?.getAttribute('aria-live')).toBe('polite');
+    expect(document.activeElement).toBe(getRadios()[0]);
+    await expectAccessible(container);
+  });
+
+  it('wires field errors to their controls and focuses the first invalid field', async () => {
+    const { container } = renderForm();
+    fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+    clickNext();
+    clickNext();
+
+    const feedback = screen.getByRole('textbox', { name: /what worked well/i });
+    expect(feedback.getAttribute('aria-invalid')).toBe('true');
+    expect(feedback.getAttribute('aria-required')).toBe('true');
+    expect(document.getElementById(feedback.getAttribute('aria-describedby') ?? '')?.textContent)
+      .toBe('Feedback is required');
+    expect(document.activeElement).toBe(feedback);
+    await expectAccessible(container);
+  });
+
+  it('focuses the first invalid field when submitting', () => {
+    renderForm();
+    fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+    clickNext();
+    fireEvent.change(screen.getByRole('textbox', { name: /what worked well/i }), {
+      target: { value: 'Checkout was quick, but delivery took a while.' }
+    });
+    clickNext();
+    fireEvent.change(screen.getByRole('textbox', { name: 'Full Name / Company Name' }), { target: { value: 'Ada' } });
+    const email = screen.getByRole('textbox', { name: 'Email Address' });
+    fireEvent.change(email, { target: { value: 'not-an-email' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+
+    expect(email.getAttribute('aria-invalid')).toBe('true');
+    expect(document.activeElement).toBe(email);
+  });
+
+  it('runs pending async validators on submit and focuses the rejected field', async () => {
+    const fetchMock = vi.mocked(fetch);
+    renderForm({
+      validation: {
+        debounceMs: 60_000,
+        validators: { known: { async: true, validate: async () => 'Unknown address' } },
+        rules: { email: { validators: ['known'] } }
+      }
+    });
+    completeForm();
+
+    const email = screen.getByRole('textbox', { name: 'Email Address' });
+    await waitFor(() => expect(email.getAttribute('aria-invalid')).toBe('true'));
+    expect(document.getElementById(email.getAttribute('aria-describedby') ?? '')?.textContent).toBe('Unknown address');
+    expect(document.activeElement).toBe(email);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('asks for consent once contact details are entered and records it in the payload', async () => {
+    const fetchMock = vi.mocked(fetch);
+    const { container } = renderForm({
+      privacy: { anonymity: 'optional', consent: { policyVersion: '2026-01', policyUrl: 'https://example.test/privacy' } }
+    });
+    fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+    clickNext();
+    fireEvent.change(screen.getByRole('textbox', { name: /what worked well/i }), {
+      target: { value: 'Checkout was quick, but delivery took a while.' }
+    });
+    clickNext();
+
+    expect(screen.queryByRole('checkbox', { name: /contact details/i })).toBeNull();
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email Address' }), { target: { value: 'ada@example.com' } });
+    expect(screen.queryByRole('button', { name: 'Submit Feedback' })).toBeNull();
+    await expectAccessible(container);
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /contact details/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+    await screen.findByRole('heading', { name: 'Thank You!' });
+
+    const payload = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+    expect(payload.name).toBe('');
+    expect(payload.consent).toMatchObject({ policyVersion: '2026-01', policyUrl: 'https://example.test/privacy' });
+    expect(payload.consent.text).toMatch(/contact details/);
+  });
+
+  it('announces delivery failures through an alert', async () => {
+    respondWith(400, { success: false });
+    const { container } = renderForm();
+    completeForm();
+
+    await waitFor(() => expect(screen.getByRole('alert').textContent).toContain('Webhook error: 400'));
+    await expectAccessible(container);
+  });
+
+  it('exposes the theme toggle as pressed buttons and remembers the choice', async () => {
+    const { container, unmount } = renderForm();
+    const toggle = screen.getByRole('group', { name: 'Theme' });
+    fireEvent.click(within(toggle).getByRole('button', { name: 'Dark' }));
+
+    expect(within(toggle).getByRole('button', { name: 'Dark' }).getAttribute('aria-pressed')).toBe('true');
+    expect((container.firstElementChild as HTMLElement).style.getPropertyValue('--sf-surface')).toBe('#1F2937');
+    await expectAccessible(container);
+
+    unmount();
+    renderForm();
+    expect(screen.getByRole('button', { name: 'Dark' }).getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('moves focus to the thank-you heading and back to the form', async () => {
+    const { container } = renderForm();
+    completeForm();
+
+    const heading = await screen.findByRole('heading', { name: 'Thank You!' });
+    expect(document.activeElement).toBe(heading);
+    await expectAccessible(container);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Another Response' }));
+    expect(document.activeElement).toBe(screen.getByRole('heading', { name: 'How was your experience?' }));
+  });
+});
@@ -0,0 +1,490 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { DEFAULT_FORM_SCHEMA } from '../config/defaultFormSchema';
+import { getDeliveryTarget } from '../delivery';
+import type { FormSchema } from '../types/formSchema';
+import { getQueuedSubmissions } from '../utils/submissionQueue';
+import EmojiRatingForm, { type EmojiRatingFormProps } from './SentimentAnalysisForm';
+
+const WEBHOOK_URL = 'https://example.test/webhook';
+const FEEDBACK = 'Checkout was quick, but delivery took a while.';
+
+const renderForm = (props: Partial<EmojiRatingFormProps> = {}) =>
+  render(
+    <EmojiRatingForm
+      webhookUrl={WEBHOOK_URL}
+      locale="en"
+      theme="light"
+      draft={false}
+      spamProtection={{ minTimeToSubmitMs: 0 }}
+      {...props}
+    />
+  );
+
+const respondWith = (status: number, body: unknown = { success: status < 400 }) =>
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status })));
+
+const sentPayload = () => JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+
+const clickNext = () => fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+const submitButton = () => screen.queryByRole('button', { name: /Submit Feedback|Submitting/ });
+const feedbackInput = () => screen.getByRole('textbox', { name: /what worked well/i });
+const emailInput = () => screen.getByRole('textbox', { name: 'Email Address' });
+
+// Neutral avoids the rating branches so the default three steps keep their generic questions
+const fillToContactStep = () => {
+  fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+  clickNext();
+  fireEvent.change(feedbackInput(), { target: { value: FEEDBACK } });
+  clickNext();
+};
+
+const fillContact = (email = 'ada@example.com') => {
+  fireEvent.change(screen.getByRole('textbox', { name: 'Full Name / Company Name' }), { target: { value: 'Ada Lovelace' } });
+  fireEvent.change(emailInput(), { target: { value: email } });
+};
+
+// useId values depend on how many forms rendered before, so they are left out of snapshots
+const withoutGeneratedIds = (element: Element): Element => {
+  const clone = element.cloneNode(true) as Element;
+  [clone, ...clone.querySelectorAll('*')].forEach((node) => {
+    node.removeAttribute('id');
+    node.removeAttribute('aria-labelledby');
+  });
+  return clone;
+};
+
+const completeForm = () => {
+  fillToContactStep();
+  fillContact();
+  fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+};
+
+describe('SentimentAnalysisForm', () => {
+  beforeEach(() => respondWith(200));
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('rating', () => {
+    it('selects a rating, shows its label and reports the option', () => {
+      const onRatingSelected = vi.fn();
+      renderForm({ onRatingSelected });
+      expect(screen.getByText('👆 Please select a rating to continue')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Satisfied' }));
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+
+      expect(screen.getByRole('radio', { name: 'Neutral' }).getAttribute('aria-checked')).toBe('true');
+      expect(screen.getByRole('radio', { name: 'Satisfied' }).getAttribute('aria-checked')).toBe('false');
+      expect(onRatingSelected).toHaveBeenLastCalledWith(expect.objectContaining({ value: 2, label: 'scales.emoji.neutral' }));
+      expect(screen.queryByText('👆 Please select a rating to continue')).toBeNull();
+    });
+  });
+
+  describe('progressive reveal', () => {
+    it('shows one step at a time and only advances past complete steps', () => {
+      renderForm();
+      expect(screen.queryByRole('textbox')).toBeNull();
+      expect(screen.queryByRole('button', { name: 'Back' })).toBeNull();
+
+      clickNext();
+      expect(screen.queryByRole('textbox')).toBeNull();
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+      clickNext();
+      expect(feedbackInput()).toBeTruthy();
+      expect(screen.queryByRole('textbox', { name: 'Email Address' })).toBeNull();
+
+      fireEvent.change(feedbackInput(), { target: { value: FEEDBACK } });
+      clickNext();
+      expect(emailInput()).toBeTruthy();
+      expect(screen.queryByRole('button', { name: 'Next' })).toBeNull();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Back' }));
+      expect((feedbackInput() as HTMLTextAreaElement).value).toBe(FEEDBACK);
+    });
+
+    it('asks rating-specific follow-up questions', () => {
+      renderForm();
+      fireEvent.click(screen.getByRole('radio', { name: 'Unsatisfied' }));
+      clickNext();
+
+      expect(screen.queryByRole('textbox', { name: /what worked well/i })).toBeNull();
+      expect(screen.getByRole('textbox', { name: 'Sorry to hear that. What went wrong?' })).toBeTruthy();
+    });
+  });
+
+  describe('validation', () => {
+    it('shows messages for missing, short and invalid values once fields are touched', () => {
+      renderForm();
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+      clickNext();
+      expect(screen.queryByText('Feedback is required')).toBeNull();
+
+      clickNext();
+      expect(screen.getByText('Feedback is required')).toBeTruthy();
+
+      fireEvent.change(feedbackInput(), { target: { value: 'Too short' } });
+      fireEvent.blur(feedbackInput());
+      expect(feedbackInput().getAttribute('aria-invalid')).toBe('true');
+      expect(screen.queryByText('Feedback is required')).toBeNull();
+
+      fireEvent.change(feedbackInput(), { target: { value: FEEDBACK } });
+      clickNext();
+      fillContact('ada@');
+      fireEvent.blur(emailInput());
+      expect(screen.getByText('Please enter a valid email address')).toBeTruthy();
+    });
+  });
+
+  describe('attachments', () => {
+    const schema: FormSchema = {
+      ...DEFAULT_FORM_SCHEMA,
+      fields: [
+        ...DEFAULT_FORM_SCHEMA.fields,
+        { id: 'attachments', type: 'file', label: 'fields.attachments.label', validation: { accept: ['image/*', '.pdf'] } }
+      ],
+      steps: DEFAULT_FORM_SCHEMA.steps?.map((step) =>
+        step.id === 'feedback' ? { ...step, fields: [...step.fields, 'attachments'] } : step
+      )
+    };
+
+    it('checks pasted files at once and sends picked ones with the response', async () => {
+      const { container } = renderForm({ schema });
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+      clickNext();
+      fireEvent.change(feedbackInput(), { target: { value: FEEDBACK } });
+
+      fireEvent.paste(feedbackInput(), { clipboardData: { files: [new File(['a'], 'notes.txt', { type: 'text/plain' })] } });
+      expect(await screen.findByText('notes.txt is not a supported file type')).toBeTruthy();
+      fireEvent.click(screen.getByRole('button', { name: 'Remove notes.txt' }));
+      expect(screen.queryByText('notes.txt is not a supported file type')).toBeNull();
+
+      const input = container.querySelector<HTMLInputElement>('input[type="file"]');
+      fireEvent.change(input!, { target: { files: [new File(['%PDF'], 'invoice.pdf', { type: 'application/pdf' })] } });
+      await screen.findByRole('button', { name: 'Remove invoice.pdf' });
+      clickNext();
+      fillContact();
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+
+      await screen.findByRole('heading', { name: 'Thank You!' });
+      expect(sentPayload().attachments).toEqual([
+        expect.objectContaining({ fieldId: 'attachments', name: 'invoice.pdf', type: 'application/pdf', data: btoa('%PDF') })
+      ]);
+    });
+    it('holds the submit button until picked files have been read', async () => {
+      const { container } = renderForm({ schema });
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+      clickNext();
+      fireEvent.change(feedbackInput(), { target: { value: FEEDBACK } });
+      const input = container.querySelector<HTMLInputElement>('input[type="file"]');
+      fireEvent.change(input!, { target: { files: [new File(['%PDF'], 'invoice.pdf', { type: 'application/pdf' })] } });
+      clickNext();
+      fillContact();
+
+      const waiting = screen.getByRole('button', { name: 'Preparing files…' }) as HTMLButtonElement;
+      expect(waiting.disabled).toBe(true);
+      fireEvent.click(waiting);
+      expect(fetch).not.toHaveBeenCalled();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Submit Feedback' }));
+      await screen.findByRole('heading', { name: 'Thank You!' });
+      expect(sentPayload().attachments).toEqual([expect.objectContaining({ name: 'invoice.pdf' })]);
+    });
+  });
+
+  describe('submit button', () => {
+    it('appears once required fields are filled and signals invalid values', () => {
+      renderForm();
+      fillToContactStep();
+      expect(submitButton()).toBeNull();
+      expect(screen.getByText('📝 Please fill in your contact information to submit')).toBeTruthy();
+
+      fillContact('not-an-email');
+      expect(submitButton()?.className).toContain('cursor-not-allowed');
+      expect(screen.getByText('Please fix the validation errors above')).toBeTruthy();
+
+      fireEvent.change(emailInput(), { target: { value: 'ada@example.com' } });
+      expect(submitButton()?.className).toContain('cursor-pointer');
+      expect(screen.queryByText('Please fix the validation errors above')).toBeNull();
+    });
+
+    it('is disabled and busy while the response is being sent', async () => {
+      let respond: (response: Response) => void = () => {};
+      vi.stubGlobal('fetch', vi.fn(() => new Promise<Response>((resolve) => { respond = resolve; })));
+      renderForm();
+      completeForm();
+
+      await waitFor(() => expect((submitButton() as HTMLButtonElement).disabled).toBe(true));
+      expect(submitButton()?.getAttribute('aria-busy')).toBe('true');
+      expect(submitButton()?.textContent).toBe('Submitting...');
+
+      respond(new Response('{}', { status: 200 }));
+      await screen.findByRole('heading', { name: 'Thank You!' });
+    });
+  });
+
+  describe('submission', () => {
+    it('posts the response to the webhook and shows the thank-you screen', async () => {
+      const onSubmitSuccess = vi.fn();
+      renderForm({ onSubmitSuccess });
+      completeForm();
+
+      await screen.findByRole('heading', { name: 'Thank You!' });
+      expect(fetch).toHaveBeenCalledWith(WEBHOOK_URL, expect.objectContaining({ method: 'POST' }));
+      expect(sentPayload()).toMatchObject({
+        rating: 2,
+        ratingLabel: 'Neutral',
+        ratingScale: 'emoji-3',
+        feedback: FEEDBACK,
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        locale: 'en'
+      });
+      expect(onSubmitSuccess).toHaveBeenCalledWith(expect.objectContaining({ feedback: FEEDBACK }), { queued: false });
+    });
+
+    it('keeps the form and reports rejected responses', async () => {
+      respondWith(422, { success: false });
+      const onSubmitError = vi.fn();
+      renderForm({ onSubmitError });
+      completeForm();
+
+      await waitFor(() => expect(screen.getByRole('alert').textContent).toContain('Webhook error: 422'));
+      expect(onSubmitError).toHaveBeenCalledWith(expect.stringContaining('Webhook error: 422'), expect.any(Object));
+      expect(screen.queryByRole('heading', { name: 'Thank You!' })).toBeNull();
+      expect(submitButton()).toBeTruthy();
+    });
+
+    it('queues responses the server could not take and says so', async () => {
+      respondWith(503, { success: false });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onSubmitSuccess = vi.fn();
+      renderForm({ onSubmitSuccess });
+      completeForm();
+
+      await screen.findByText(/saved on this device/);
+      expect(onSubmitSuccess).toHaveBeenCalledWith(expect.any(Object), { queued: true });
+    });
+
+    it('retries queued responses only from a form that sends to the same URL', async () => {
+      const OTHER_URL = 'https://example.test/other-webhook';
+      const queued = (submissionId: string, url: string) => ({
+        id: submissionId,
+        payload: { submissionId, attachments: [] },
+        target: getDeliveryTarget({ url }),
+        attempts: 1,
+        nextAttemptAt: 0
+      });
+      window.localStorage.setItem(
+        'sentiment-form:submission-queue',
+        JSON.stringify([queued('for-other', OTHER_URL), queued('for-default', WEBHOOK_URL)])
+      );
+      renderForm();
+      renderForm({ webhookUrl: OTHER_URL });
+
+      await waitFor(() => expect(getQueuedSubmissions()).toEqual([]));
+      const sent = vi.mocked(fetch).mock.calls.map(([url, init]) => [url, JSON.parse(init?.body as string).submissionId]);
+      expect(sent).toHaveLength(2);
+      expect(sent).toEqual(expect.arrayContaining([[WEBHOOK_URL, 'for-default'], [OTHER_URL, 'for-other']]));
+    });
+
+    it('shows the error instead of the queued screen when the response cannot be saved', async () => {
+      respondWith(503, { success: false });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const setItem = Storage.prototype.setItem;
+      vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key, value) {
+        if (key === 'sentiment-form:submission-queue') {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        }
+        setItem.call(this, key, value);
+      });
+      const onSubmitSuccess = vi.fn();
+      renderForm({ onSubmitSuccess });
+      completeForm();
+
+      expect(await screen.findByText(/Webhook error: 503/)).toBeTruthy();
+      expect(screen.queryByText(/saved on this device/)).toBeNull();
+      expect(onSubmitSuccess).not.toHaveBeenCalled();
+    });
+
+    it('reports a configuration error without sending when no webhook URL is set', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      renderForm({ webhookUrl: '' });
+      completeForm();
+
+      await waitFor(() =>
+        expect(screen.getByRole('alert').textContent).toContain('Webhook configuration error. Please try again later.'));
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Webhook URL is not defined'));
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('thank-you screen', () => {
+    it('matches the snapshot', async () => {
+      renderForm({ themeToggle: false });
+      completeForm();
+
+      const heading = await screen.findByRole('heading', { name: 'Thank You!' });
+      expect(withoutGeneratedIds(heading.closest('section') as Element)).toMatchSnapshot();
+    });
+
+    it('shows the message and ticket reference from the webhook reply', async () => {
+      respondWith(200, { success: true, message: 'Our team will reply within a day.', ticket: 4211 });
+      const onSubmitSuccess = vi.fn();
+      renderForm({ onSubmitSuccess, thankYou: { message: 'Configured message' } });
+      completeForm();
+
+      expect(await screen.findByText('Our team will reply within a day.')).toBeTruthy();
+      expect(screen.getByText('Your reference: 4211')).toBeTruthy();
+      expect(screen.queryByText('Configured message')).toBeNull();
+      expect(onSubmitSuccess).toHaveBeenCalledWith(expect.any(Object), { queued: false, ticket: '4211' });
+    });
+
+    it('uses the screen configured for the rating, with links and a cancellable redirect', async () => {
+      respondWith(200, { success: true, ticket: 'SUP-9' });
+      const assign = vi.fn();
+      vi.stubGlobal('location', { ...window.location, assign });
+      renderForm({
+        thankYou: {
+          screens: [
+            { ratings: [3], title: 'Glad you liked it!' },
+            {
+              ratings: [2],
+              message: 'Need a hand?',
+              actions: [{ label: 'Contact support', url: 'https://help.test/new?ref={ticket}', primary: true }],
+              redirect: { url: 'https://help.test/', afterSeconds: 1 },
+              submitAnother: false
+            }
+          ]
+        }
+      });
+      completeForm();
+
+      expect(await screen.findByRole('heading', { name: 'Thank You!' })).toBeTruthy();
+      expect(screen.getByText('Need a hand?')).toBeTruthy();
+      expect(screen.getByRole('link', { name: 'Contact support' }).getAttribute('href')).toBe('https://help.test/new?ref=SUP-9');
+      expect(screen.queryByRole('button', { name: 'Submit Another Response' })).toBeNull();
+      expect(screen.getByText('Taking you onwards in 1 second…')).toBeTruthy();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Stay on this page' }));
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      expect(assign).not.toHaveBeenCalled();
+      expect(screen.queryByText(/Taking you onwards/)).toBeNull();
+    });
+
+    it('starts a fresh response on "Submit another"', async () => {
+      renderForm();
+      completeForm();
+      fireEvent.click(await screen.findByRole('button', { name: 'Submit Another Response' }));
+
+      expect(screen.getAllByRole('radio').map((radio) => radio.getAttribute('aria-checked'))).toEqual(['false', 'false', 'false']);
+      expect(screen.getByText('👆 Please select a rating to continue')).toBeTruthy();
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+      clickNext();
+      expect((feedbackInput() as HTMLTextAreaElement).value).toBe('');
+    });
+  });
+
+  describe('draft', () => {
+    const DRAFT_KEY = 'sentiment-form:draft:emoji-3';
+    const storedDraft = () => window.localStorage.getItem(DRAFT_KEY);
+    // Saves right away instead of after the debounce
+    const leavePage = () => fireEvent(window, new Event('pagehide'));
+    const seedDraft = (savedAt: number) => window.localStorage.setItem(DRAFT_KEY, JSON.stringify({
+      savedAt,
+      ratingScale: 'emoji-3',
+      rating: 2,
+      values: { feedback: FEEDBACK },
+      touched: { feedback: true }
+    }));
+
+    it('saves progress and offers it back on the next visit', () => {
+      const { unmount } = renderForm({ draft: {} });
+      fireEvent.click(screen.getByRole('radio', { name: 'Neutral' }));
+      clickNext();
+      fireEvent.change(feedbackInput(), { target: { value: FEEDBACK } });
+      leavePage();
+      unmount();
+
+      renderForm({ draft: {} });
+      fireEvent.click(screen.getByRole('button', { name: 'Resume draft' }));
+      expect(screen.getByRole('radio', { name: 'Neutral' }).getAttribute('aria-checked')).toBe('true');
+      clickNext();
+      expect((feedbackInput() as HTMLTextAreaElement).value).toBe(FEEDBACK);
+    });
+
+    it('drops the draft on "Start over" and once it expires', () => {
+      seedDraft(Date.now());
+      const { unmount } = renderForm({ draft: {} });
+      fireEvent.click(screen.getByRole('button', { name: 'Start over' }));
+
+      expect(storedDraft()).toBeNull();
+      expect(screen.queryByRole('button', { name: 'Resume draft' })).toBeNull();
+      unmount();
+
+      seedDraft(Date.now() - 2 * 60 * 60 * 1000);
+      renderForm({ draft: { ttlMs: 60 * 60 * 1000 } });
+      expect(screen.queryByRole('button', { name: 'Resume draft' })).toBeNull();
+      expect(storedDraft()).toBeNull();
+    });
+
+    it('clears the draft after submitting and does not save the sent response again', async () => {
+      renderForm({ draft: {} });
+      fillToContactStep();
+      fillContact();
+      leavePage();
+      expect(storedDraft()).toContain(FEEDBACK);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Feedback' }));
+      await screen.findByRole('heading', { name: 'Thank You!' });
+      leavePage();
+      expect(storedDraft()).toBeNull();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Another Response' }));
+      leavePage();
+      expect(storedDraft()).toBeNull();
+    });
+
+    it('keeps name and email off the device when excludePersonalData is set', () => {
+      renderForm({ draft: { excludePersonalData: true } });
+      fillToContactStep();
+      fillContact();
+      leavePage();
+
+      expect(storedDraft()).toContain(FEEDBACK);
+      expect(storedDraft()).not.toContain('Ada Lovelace');
+      expect(storedDraft()).not.toContain('ada@example.com');
+    });
+  });
+
+  describe('dark mode', () => {
+    const surfaceOf = (container: HTMLElement) =>
+      (container.firstElementChild as HTMLElement).style.getPropertyValue('--sf-surface');
+
+    it('applies the dark theme when asked', () => {
+      const { container } = renderForm({ theme: 'dark' });
+      expect(surfaceOf(container)).toBe('#1F2937');
+    });
+
+    it('follows the system colour scheme in system mode', () => {
+      vi.spyOn(window, 'matchMedia').mockImplementation((query: string) => ({
+        matches: query === '(prefers-color-scheme: dark)',
+        media: query,
+        onchange: null,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+        addListener: () => {},
+        removeListener: () => {},
+        dispatchEvent: () => false
+      }));
+      const { container } = renderForm({ theme: 'system' });
+      expect(surfaceOf(container)).toBe('#1F2937');
+
+      fireEvent.click(within(screen.getByRole('group', { name: 'Theme' })).getByRole('button', { name: 'Light' }));
+      expect(surfaceOf(container)).not.toBe('#1F2937');
+    });
+  });
+});
@@ -1,553 +1,1007 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useId, useMemo, useRef } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { 
-  faFaceFrown, 
-  faFaceMeh, 
-  faFaceGrinBeam,
-  faCheckCircle,
-  faExclamationCircle
+  faExclamationCircle,
+  faCircleQuestion,
+  faClockRotateLeft
 } from '@fortawesome/free-solid-svg-icons';
-
-interface Emoji {
-  value: number;
-  label: string;
-  iconColor: string;
-  iconSize: string;
-  ringColor: string;
-  bgColor: string;
-  bgColorDark: string;
-}
-
-interface FeedbackData {
-  rating: number;
-  feedback: string;
-  name: string;
-  email: string;
-  timestamp: string;
-}
-
-interface FormErrors {
-  feedback?: string;
-  name?: string;
-  email?: string;
-}
-
-interface WebhookResponse {
-  success: boolean;
-  message?: string;
+import type { FeedbackData, FormErrors, WebhookResponse } from '../types/feedback';
+import type { RatingOption, RatingScale } from '../types/ratingScale';
+import type { FieldValue, FormField, FormSchema, FormStep } from '../types/formSchema';
+import type { AttachmentEncoding } from '../types/attachment';
+import { EMOJI_SCALE } from '../config/ratingScales';
+import { DEFAULT_FORM_SCHEMA } from '../config/defaultFormSchema';
+import {
+  getInitialValues,
+  getVisibleFields,
+  isFieldFilled,
+  isPersonalField,
+  isValueForField,
+  RATING_FIELD,
+  serializeFields,
+  type FieldValues
+} from '../utils/formSchema';
+import { analyzeSentiment, isSentimentMismatch, ratingToPolarity } from '../utils/sentiment';
+import {
+  assessSubmission,
+  isRateLimited,
+  recordSubmission,
+  resolveSpamProtection,
+  type SpamProtectionOptions
+} from '../utils/spamProtection';
+import { applyRatingBranch, getRatingBranch } from '../utils/branching';
+import {
+  applyAnonymity,
+  createConsentRecord,
+  redactText,
+  resolveRedactionKinds,
+  type PrivacyOptions
+} from '../utils/privacy';
+import { getActiveSteps, getStepErrors, getStepFields, stepHasRating } from '../utils/steps';
+import { resolveThankYouScreen, type SubmissionReceipt, type ThankYouOptions } from '../utils/thankYou';
+import SchemaField from './SchemaField';
+import StepProgress from './StepProgress';
+import StepTransition from './StepTransition';
+import ThemeToggle from './ThemeToggle';
+import ThankYouScreen from './ThankYouScreen';
+import { deliverFeedback, getDeliveryTarget, type DeliveryAdapter, type AdapterId, type SigningOptions } from '../delivery';
+import { createSubmissionId } from '../utils/submissionQueue';
+import { isAttachmentList, readAttachments } from '../utils/attachments';
+import { useSubmissionQueue } from '../hooks/useSubmissionQueue';
+import { useI18n } from '../hooks/useI18n';
+import { useDraft } from '../hooks/useDraft';
+import { useWizard } from '../hooks/useWizard';
+import { useTheme } from '../hooks/useTheme';
+import { useAnalytics } from '../hooks/useAnalytics';
+import type { AnalyticsOptions, SubmitFailureReason } from '../analytics';
+import { useAsyncValidation } from '../hooks/useAsyncValidation';
+import { createValidationEngine, type ValidationConfig } from '../validation';
+import type { DraftOptions } from '../utils/draft';
+import { collectContext, collectMetadata, rememberCampaign, type ContextValue, type MetadataOptions } from '../utils/metadata';
+import { FEEDBACK_SCHEMA_VERSION } from '../utils/validateFeedbackData';
+import { createTranslator, DEFAULT_LOCALE } from '../i18n';
+import { ratingToneColor, ratingToneSurface, type BrandTheme, type ThemeMode } from '../theme';
+import {
+  choiceInputClasses,
+  disabledButtonClasses,
+  errorTextClasses,
+  focusRingClasses,
+  primaryButtonClasses,
+  secondaryButtonClasses
+} from '../theme/classes';
+
+export type { BrandTheme, ThemeMode };
+
+export interface EmojiRatingFormProps {
+  scale?: RatingScale;
+  schema?: FormSchema;
+  // Heading and line below it; message keys or literal text
+  title?: string;
+  subtitle?: string;
+  // Falls back to VITE_WEBHOOK_URL when omitted
+  webhookUrl?: string;
+  // How the payload is encoded and posted: generic JSON webhook, Slack incoming webhook or form-encoded
+  adapter?: DeliveryAdapter | AdapterId;
+  // Adds HMAC signature and timestamp headers. getSecret should fetch the key from a server: anything in the
+  // bundle, VITE_* variables included, is public
+  signing?: SigningOptions;
+  // How files from file fields are sent: base64 inside the payload (default) or as multipart file parts
+  attachmentEncoding?: AttachmentEncoding;
+  // Milliseconds to wait for the endpoint before treating the attempt as failed and queueing it; defaults to 15000
+  requestTimeoutMs?: number;
+  // Honeypot, minimum fill time, rate limiting, duplicate detection and an optional challenge hook
+  spamProtection?: SpamProtectionOptions;
+  // Autosaves unfinished responses on this device and offers them back on return; `false` turns it off
+  draft?: DraftOptions | false;
+  // Host context sent with every response, e.g. { orderId: 'A-1001', sku: 'TSHIRT-M' }
+  context?: Record<string, ContextValue>;
+  // Which page, campaign, device and session details to collect, and query parameters to copy into `context`
+  metadata?: MetadataOptions;
+  // Anonymous responses, a consent checkbox for contact details and redaction of personal data in the feedback text
+  privacy?: PrivacyOptions;
+  // Interaction events batched to console, webhook, dataLayer or custom sinks; pass a stable object
+  analytics?: AnalyticsOptions;
+  // Title, message, follow-up links, share button and redirect shown after submitting, per rating or branch
+  thankYou?: ThankYouOptions;
+  // Custom sync/async validators, per-field rule overrides and extra disposable domains or blocked words
+  validation?: ValidationConfig;
+  // Initial theme; the respondent's choice from the toggle is remembered and takes precedence
+  theme?: ThemeMode;
+  // Brand colours, font, corner radius and logo layered over the active theme
+  brand?: BrandTheme;
+  // Shows the light/dark/system switch
+  themeToggle?: boolean;
+  // BCP 47 tag such as "es" or "ar-EG"; detected from navigator.languages when omitted
+  locale?: string;
+  // "page" fills the viewport; "embedded" sizes to its container (widget, modal)
+  layout?: 'page' | 'embedded';
+  onRatingSelected?: (option: RatingOption) => void;
+  // `queued` is true when delivery failed and the payload was saved for a background retry;
+  // `ticket` is the reference the receiver replied with, if any
+  onSubmitSuccess?: (data: FeedbackData, details: { queued: boolean; ticket?: string }) => void;
+  onSubmitError?: (message: string, data: FeedbackData) => void;
 }
 
-const EmojiRatingForm: React.FC = () => {
+const EmojiRatingForm: React.FC<EmojiRatingFormProps> = ({
+  scale = EMOJI_SCALE,
+  schema: baseSchema = DEFAULT_FORM_SCHEMA,
+  title = 'form.title',
+  subtitle = 'form.subtitle',
+  webhookUrl,
+  adapter,
+  signing,
+  attachmentEncoding,
+  requestTimeoutMs,
+  spamProtection,
+  draft,
+  context,
+  metadata,
+  privacy,
+  analytics: analyticsOptions,
+  thankYou,
+  validation,
+  theme = 'system',
+  brand,
+  themeToggle = true,
+  locale: preferredLocale,
+  layout = 'page',
+  onRatingSelected,
+  onSubmitSuccess,
+  onSubmitError
+}) => {
   const [selectedRating, setSelectedRating] = useState<number | null>(null);
-  const [feedback, setFeedback] = useState<string>('');
-  const [name, setName] = useState<string>('');
-  const [email, setEmail] = useState<string>('');
-  const [isSubmitted, setIsSubmitted] = useState<boolean>(false);
+  const [values, setValues] = useState<FieldValues>(() => getInitialValues(baseSchema));
+  // Set once the response is delivered or queued; the thank-you screen shows while it is set
+  const [receipt, setReceipt] = useState<SubmissionReceipt | null>(null);
+  const isSubmitted = receipt !== null;
   const [hoveredRating, setHoveredRating] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Files still being read per file field; submit waits until none are left so no file is lost
+  const [pendingFileReads, setPendingFileReads] = useState<Record<string, number>>({});
+  const isReadingFiles = Object.values(pendingFileReads).some((count) => count > 0);
   const [errors, setErrors] = useState<FormErrors>({});
-  const [touched, setTouched] = useState({
-    feedback: false,
-    name: false,
-    email: false
-  });
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [submitError, setSubmitError] = useState<string>('');
-  const [isFormValid, setIsFormValid] = useState<boolean>(false);
-  const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
+  const { locale, dir, t } = useI18n(preferredLocale);
+  const themeState = useTheme(theme, brand);
+  const [honeypotValue, setHoneypotValue] = useState<string>('');
+  // When the respondent ticked the consent box; null while it is unticked
+  const [consentGivenAt, setConsentGivenAt] = useState<number | null>(null);
+  // Time-to-submit is measured from when the form (or a fresh response after reset) was shown
+  const startedAtRef = useRef<number>(Date.now());
+  const collectsUtm = metadata?.collect?.utm !== false;
+  // Capture the landing page's campaign before client-side navigation can drop it from the URL
+  useEffect(() => {
+    if (collectsUtm) {
+      rememberCampaign();
+    }
+  }, [collectsUtm]);
+  const spamConfig = resolveSpamProtection(spamProtection);
 
   // Webhook URL - replace with your actual webhook URL
-  const WEBHOOK_URL = import.meta.env?.VITE_WEBHOOK_URL || '';
+  const WEBHOOK_URL = webhookUrl ?? (import.meta.env?.VITE_WEBHOOK_URL || '');
 
   if (!WEBHOOK_URL) {
-    console.error('Webhook URL is not defined. Please set VITE_WEBHOOK_URL environment variable.');
+    console.error('Webhook URL is not defined. Pass webhookUrl or set VITE_WEBHOOK_URL environment variable.');
   }
 
-  // Dark mode detection
+  const hasRating = selectedRating !== null;
+  const selectedOption = scale.options.find((option) => option.value === selectedRating);
+
+  // Read through a ref so inline adapter/signing props don't restart the retry queue on every render
+  const deliveryRef = useRef({ url: WEBHOOK_URL, adapter, signing, attachmentEncoding, timeoutMs: requestTimeoutMs });
   useEffect(() => {
-    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-    setIsDarkMode(mediaQuery.matches);
-
-    const handleChange = (e: MediaQueryListEvent) => {
-      setIsDarkMode(e.matches);
-    };
-
-    mediaQuery.addEventListener('change', handleChange);
-    return () => mediaQuery.removeEventListener('change', handleChange);
-  }, []);
-
-  const emojis: Emoji[] = [
-    { 
-      value: 1, 
-      label: 'Unsatisfied', 
-      iconColor: '#E3424D', 
-      iconSize: '45px', 
-      ringColor: '#E3424D',
-      bgColor: '#FEEBEE',
-      bgColorDark: 'rgba(227, 66, 77, 0.15)'
-    },
-    { 
-      value: 2, 
-      label: 'Neutral', 
-      iconColor: '#FCC418', 
-      iconSize: '45px', 
-      ringColor: '#FCC418',
-      bgColor: '#FFF8E1',
-      bgColorDark: 'rgba(252, 196, 24, 0.15)'
-    },
-    { 
-      value: 3, 
-      label: 'Satisfied', 
-      iconColor: '#2EB578', 
-      iconSize: '45px', 
-      ringColor: '#2EB578',
-      bgColor: '#E6F4EE',
-      bgColorDark: 'rgba(46, 181, 120, 0.15)'
+    deliveryRef.current = { url: WEBHOOK_URL, adapter, signing, attachmentEncoding, timeoutMs: requestTimeoutMs };
+  });
+
+  const sendFeedback = useCallback(
+    (data: FeedbackData) => deliverFeedback(deliveryRef.current, data),
+    []
+  );
+
+  // Failed submissions are kept locally and retried in the background
+  const queueSubmission = useSubmissionQueue(sendFeedback, getDeliveryTarget({ url: WEBHOOK_URL, adapter }));
+
+  // Follow-up prompts and extra questions depend on the rating, and the anonymity mode decides what happens to
+  // contact fields; everything below works on the resulting schema
+  const anonymity = privacy?.anonymity;
+  const schemaFor = useCallback(
+    (rating: number | null) => applyAnonymity(applyRatingBranch(baseSchema, scale.id, rating), anonymity),
+    [baseSchema, scale.id, anonymity]
+  );
+  const schema = useMemo(() => schemaFor(selectedRating), [schemaFor, selectedRating]);
+
+  const visibleFields = getVisibleFields(schema, values, selectedRating);
+  const requiredFields = visibleFields.filter((field) => field.required);
+  const firstMissingField = requiredFields.find((field) => !isFieldFilled(field, values));
+  // Consent is only asked for once contact details are entered, so anonymous responses never need it
+  const needsConsent = privacy?.consent !== undefined &&
+    visibleFields.some((field) => isPersonalField(field) && isFieldFilled(field, values));
+  const consentMissing = needsConsent && consentGivenAt === null;
+  const allRequiredFilled = hasRating && !firstMissingField && !consentMissing;
+
+  // Inline errors and the submit button share one validation pass so they cannot drift apart
+  const validationEngine = useMemo(() => createValidationEngine(validation), [validation]);
+  const syncErrors = useMemo(
+    () => validationEngine.validateFields(schema, values, selectedRating, t),
+    [validationEngine, schema, values, selectedRating, t]
+  );
+  // Async validators only see values that already pass every sync rule
+  const asyncValidation = useAsyncValidation(
+    validationEngine,
+    visibleFields.filter((field) => !syncErrors[field.id] && isFieldFilled(field, values)),
+    values,
+    selectedRating,
+    t
+  );
+  const validationErrors: FormErrors = { ...asyncValidation.errors, ...syncErrors };
+  const isFormValid = hasRating && Object.keys(validationErrors).length === 0;
+
+  // Steps whose fields are all hidden drop out, so the wizard follows the same visibility rules as the fields
+  const steps = getActiveSteps(schema, values, selectedRating);
+  const errorsForStep = (step: FormStep) =>
+    getStepErrors(schema, step, values, selectedRating, validationErrors, t);
+  const isStepValid = (step: FormStep): boolean => Object.keys(errorsForStep(step)).length === 0;
+  const isStepComplete = (step: FormStep): boolean =>
+    isStepValid(step) &&
+    ((stepHasRating(step) && hasRating) ||
+      getStepFields(schema, step, values, selectedRating).some((field) => isFieldFilled(field, values)));
+
+  const wizard = useWizard(steps, isStepValid);
+  const { currentStep } = wizard;
+  const isMultiStep = steps.length > 1;
+  const stepFields = getStepFields(schema, currentStep, values, selectedRating);
+  const stepErrors = errorsForStep(currentStep);
+  const ratingError = touched[RATING_FIELD] ? stepErrors[RATING_FIELD] : undefined;
+
+  const analytics = useAnalytics(analyticsOptions, {
+    ratingScale: scale.id,
+    locale,
+    stepId: currentStep.id,
+    stepIndex: wizard.currentIndex,
+    stepCount: steps.length
+  });
+
+  // Errors as displayed on the current step; each newly shown message is reported once
+  const shownErrors: FormErrors = { ...(ratingError ? { [RATING_FIELD]: ratingError } : {}) };
+  for (const field of stepFields) {
+    // File fields are checked as soon as files are added: there is no typing to wait out
+    const fieldError = field.type === 'file' ? validationErrors[field.id] : errors[field.id] ?? asyncValidation.errors[field.id];
+    const error = touched[field.id] ? fieldError : undefined;
+    if (error) {
+      shownErrors[field.id] = error;
     }
-  ];
-
-  // Webhook submission function
-  const submitToWebhook = async (data: FeedbackData): Promise<WebhookResponse> => {
-    if (!WEBHOOK_URL) {
-      return {
-        success: false,
-        message: 'Webhook configuration error. Please try again later.'
-      };
+  }
+  const reportedErrorsRef = useRef<FormErrors>({});
+  useEffect(() => {
+    for (const [fieldId, message] of Object.entries(shownErrors)) {
+      if (message && reportedErrorsRef.current[fieldId] !== message) {
+        analytics.track('validation_error_shown', { fieldId, message });
+      }
     }
+    reportedErrorsRef.current = shownErrors;
+  });
 
-    try {
-      const response = await fetch(WEBHOOK_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
+  // Move focus to the new step's heading so keyboard and screen reader users land on the new content
+  const stepHeadingRef = useRef<HTMLHeadingElement>(null);
+  const shownStepRef = useRef(currentStep.id);
+  useEffect(() => {
+    if (shownStepRef.current !== currentStep.id) {
+      shownStepRef.current = currentStep.id;
+      stepHeadingRef.current?.focus();
+    }
+  }, [currentStep.id]);
 
-      if (!response.ok) {
-        throw new Error(`Webhook error: ${response.status} ${response.statusText}`);
-      }
+  const feedbackText = typeof values.feedback === 'string' ? values.feedback : '';
+  const sentiment = useMemo(() => analyzeSentiment(feedbackText), [feedbackText]);
+  const sentimentMismatch = selectedOption !== undefined &&
+    isSentimentMismatch(ratingToPolarity(scale, selectedOption.value), sentiment);
 
-      return { success: true, message: 'Feedback submitted successfully' };
-    } catch (error) {
-      console.error('Webhook submission failed:', error);
-      return { 
-        success: false, 
-        message: error instanceof Error ? error.message : 'Failed to submit feedback' 
-      };
+  const { pendingDraft, resumeDraft, clearDraft } = useDraft(
+    { schema: baseSchema, ratingScale: scale.id, rating: selectedRating, values, touched },
+    draft,
+    isSubmitted || isLoading
+  );
+
+  const handleResumeDraft = (): void => {
+    const stored = resumeDraft();
+    if (!stored) {
+      return;
     }
+    // The scale or schema may have changed since the draft was saved: keep only what still applies
+    const rating = stored.ratingScale === scale.id && scale.options.some((option) => option.value === stored.rating)
+      ? stored.rating
+      : null;
+    const restored: FieldValues = { ...getInitialValues(baseSchema) };
+    for (const field of baseSchema.fields) {
+      const value = stored.values[field.id];
+      if (isValueForField(field, value)) {
+        restored[field.id] = value;
+      }
+    }
+    setSelectedRating(rating);
+    setValues(restored);
+    setTouched(stored.touched ?? {});
+    setErrors(validationEngine.validateFields(schemaFor(rating), restored, rating, t));
   };
 
-  // Validation functions
-  const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  const validateForm = (): boolean => {
+    setErrors(validationErrors);
+    return Object.keys(validationErrors).length === 0;
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
+  const ids = { title: useId(), subtitle: useId(), ratingError: useId() };
+  const cardRef = useRef<HTMLElement>(null);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const ratingRefs = useRef<Array<HTMLButtonElement | null>>([]);
 
-    if (!feedback.trim()) {
-      newErrors.feedback = 'Feedback is required';
-    } else if (feedback.trim().length < 10) {
-      newErrors.feedback = 'Feedback must be at least 10 characters';
+  // Focus waits for the render that shows the error, so the control is announced together with its message
+  const pendingFocusRef = useRef<string | null>(null);
+  useEffect(() => {
+    const fieldId = pendingFocusRef.current;
+    if (!fieldId) {
+      return;
     }
+    pendingFocusRef.current = null;
+    const selector = fieldId === RATING_FIELD ? '[role="radio"][tabindex="0"]' : `[data-field-id="${fieldId}"]`;
+    cardRef.current?.querySelector<HTMLElement>(selector)?.focus();
+  });
 
-    if (!name.trim()) {
-      newErrors.name = 'Name is required';
+  const focusFirstInvalid = (fieldIds: string[], formErrors: FormErrors): void => {
+    pendingFocusRef.current = fieldIds.find((id) => formErrors[id]) ?? null;
+  };
+
+  // Moving between the form and the thank-you screen puts focus on the new screen's heading
+  const wasSubmittedRef = useRef(isSubmitted);
+  useEffect(() => {
+    if (wasSubmittedRef.current !== isSubmitted) {
+      wasSubmittedRef.current = isSubmitted;
+      headingRef.current?.focus();
     }
+  }, [isSubmitted]);
+
+  const handleChange = (fieldId: string, value: FieldValue) => {
+    setValues((current) => ({ ...current, [fieldId]: value }));
+  };
 
-    if (!email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!validateEmail(email)) {
-      newErrors.email = 'Please enter a valid email address';
+  // Focus moving between the options of one radio or checkbox group stays within the field and is not reported
+  const fieldIdOf = (element: EventTarget | null): string | null =>
+    element instanceof Element ? element.closest('[data-field-id]')?.getAttribute('data-field-id') ?? null : null;
+
+  const handleStepFocus = (e: React.FocusEvent<HTMLDivElement>): void => {
+    const fieldId = fieldIdOf(e.target);
+    if (fieldId && fieldId !== fieldIdOf(e.relatedTarget)) {
+      analytics.track('field_focused', { fieldId });
     }
+  };
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const handleStepBlur = (e: React.FocusEvent<HTMLDivElement>): void => {
+    const fieldId = fieldIdOf(e.target);
+    const field = schema.fields.find((candidate) => candidate.id === fieldId);
+    if (field && field.id !== fieldIdOf(e.relatedTarget)) {
+      analytics.track('field_blurred', { fieldId: field.id, filled: isFieldFilled(field, values) });
+    }
   };
 
-  // Check if form is valid and should show submit button
-  const checkFormValidity = (): boolean => {
-    if (!selectedRating || !feedback.trim() || !name.trim() || !email.trim()) {
-      return false;
+  // Reading and downscaling are asynchronous: append to the field's latest list, not the one from when files arrived
+  const addFiles = async (field: FormField, files: File[]): Promise<void> => {
+    if (files.length === 0) {
+      return;
     }
+    const countReads = (delta: number) =>
+      setPendingFileReads((current) => ({ ...current, [field.id]: (current[field.id] ?? 0) + delta }));
 
-    const hasErrors = feedback.trim().length < 10 || !validateEmail(email);
-    return !hasErrors;
+    countReads(files.length);
+    try {
+      const added = await readAttachments(files, field);
+      setValues((current) => {
+        const existing = current[field.id];
+        return { ...current, [field.id]: [...(isAttachmentList(existing) ? existing : []), ...added] };
+      });
+      setTouched((current) => ({ ...current, [field.id]: true }));
+    } finally {
+      countReads(-files.length);
+    }
   };
 
-  // Update form validity whenever relevant fields change
-  useEffect(() => {
-    const isValid = checkFormValidity();
-    setIsFormValid(isValid);
-  }, [selectedRating, feedback, name, email]);
+  // Pasted screenshots go to the first file field on the step; ordinary text pastes are left alone
+  const handleStepPaste = (e: React.ClipboardEvent<HTMLDivElement>): void => {
+    const field = stepFields.find((candidate) => candidate.type === 'file');
+    const files = Array.from(e.clipboardData.files);
+    if (!field || files.length === 0) {
+      return;
+    }
+    e.preventDefault();
+    void addFiles(field, files);
+  };
 
-  const handleBlur = (field: keyof typeof touched) => {
-    setTouched({ ...touched, [field]: true });
+  const handleBlur = (fieldId: string) => {
+    setTouched((current) => ({ ...current, [fieldId]: true }));
     validateForm();
   };
 
-  const renderEmojiSVG = (rating: number): React.ReactElement => {
-    const emoji = emojis[rating - 1];
-    
-    let icon;
-    switch(rating) {
-      case 1:
-        icon = <FontAwesomeIcon icon={faFaceFrown} style={{ color: emoji.iconColor, fontSize: emoji.iconSize }} />;
-        break;
-      case 2:
-        icon = <FontAwesomeIcon icon={faFaceMeh} style={{ color: emoji.iconColor, fontSize: emoji.iconSize }} />;
-        break;
-      case 3:
-        icon = <FontAwesomeIcon icon={faFaceGrinBeam} style={{ color: emoji.iconColor, fontSize: emoji.iconSize }} />;
-        break;
-      default:
-        icon = <FontAwesomeIcon icon={faFaceMeh} style={{ color: emoji.iconColor, fontSize: emoji.iconSize }} />;
+  // Reveals the step's errors; the wizard only advances when there are none
+  const handleNext = (): void => {
+    setTouched((current) => ({
+      ...current,
+      [RATING_FIELD]: true,
+      ...Object.fromEntries(stepFields.map((field) => [field.id, true]))
+    }));
+    setErrors(validationErrors);
+    if (!wizard.next()) {
+      focusFirstInvalid([RATING_FIELD, ...stepFields.map((field) => field.id)], stepErrors);
     }
-    
+  };
+
+  const renderRatingIcon = (option: RatingOption, isLit: boolean): React.ReactElement => {
+    const color = isLit ? ratingToneColor(option.tone) : 'var(--sf-rating-inactive)';
+
+    if (!option.icon) {
+      return (
+        <div
+          className="w-7 h-7 sm:w-8 sm:h-8 rounded-full flex items-center justify-center text-sm sm:text-base font-semibold"
+          style={{ color }}
+        >
+          {t(option.label)}
+        </div>
+      );
+    }
+
     return (
       <div className="w-12 h-12 sm:w-16 sm:h-16 rounded-full flex items-center justify-center">
-        {icon}
+        <FontAwesomeIcon icon={option.icon} style={{ color, fontSize: option.iconSize ?? '45px' }} />
       </div>
     );
   };
 
+  const reportSubmitError = (result: WebhookResponse, data: FeedbackData, reason: SubmitFailureReason): void => {
+    const message = t(result.message || 'errors.submitFailed');
+    analytics.track('submit_failed', { reason, message });
+    setSubmitError(message);
+    onSubmitError?.(message, data);
+  };
+
+  const handleRatingSelect = (option: RatingOption): void => {
+    if (selectedRating === null) {
+      analytics.track('rating_selected', { rating: option.value });
+    } else if (selectedRating !== option.value) {
+      analytics.track('rating_changed', { rating: option.value, previousRating: selectedRating });
+    }
+    setSelectedRating(option.value);
+    onRatingSelected?.(option);
+  };
+
+  // Radio group keyboard model: arrows move and select (mirrored in RTL), Home/End jump to the ends
+  const handleRatingKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number): void => {
+    const last = scale.options.length - 1;
+    const forward = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+    const backward = dir === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+    let target: number;
+
+    switch (e.key) {
+      case forward:
+      case 'ArrowDown':
+        target = index === last ? 0 : index + 1;
+        break;
+      case backward:
+      case 'ArrowUp':
+        target = index === 0 ? last : index - 1;
+        break;
+      case 'Home':
+        target = 0;
+        break;
+      case 'End':
+        target = last;
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    handleRatingSelect(scale.options[target]);
+    ratingRefs.current[target]?.focus();
+  };
+
   const handleSubmit = async (): Promise<void> => {
-    setTouched({
-      feedback: true,
-      name: true,
-      email: true
-    });
+    if (isReadingFiles) {
+      return;
+    }
+    setTouched(Object.fromEntries(visibleFields.map((field) => [field.id, true])));
+    analytics.track('submit_attempted', { rating: selectedRating });
+
+    if (validateForm() && selectedOption) {
+      if (isRateLimited(spamProtection)) {
+        const message = t('errors.rateLimited');
+        analytics.track('submit_failed', { reason: 'rate-limited', message });
+        setSubmitError(message);
+        return;
+      }
 
-    if (validateForm() && selectedRating) {
       setIsLoading(true);
       setSubmitError('');
+
+      // Async checks such as a server-side email lookup may still be waiting on their debounce
+      const asyncErrors = await asyncValidation.flush();
+      if (Object.keys(asyncErrors).length > 0) {
+        analytics.track('submit_failed', { reason: 'validation', message: null });
+        setIsLoading(false);
+        setErrors({ ...syncErrors, ...asyncErrors });
+        const stepIndex = steps.findIndex((step) =>
+          getStepFields(schema, step, values, selectedRating).some((field) => asyncErrors[field.id]));
+        wizard.goTo(stepIndex);
+        focusFirstInvalid(visibleFields.map((field) => field.id), asyncErrors);
+        return;
+      }
+
+      const submissionId = createSubmissionId();
+      const serializedFields = serializeFields(schema, values, selectedRating);
+      const redaction = redactText(serializedFields.feedback, resolveRedactionKinds(privacy?.redact));
+      // Suspicious submissions are annotated for the receiver, never silently dropped
+      const spam = await assessSubmission({
+        submissionId,
+        text: redaction.text,
+        honeypotValue,
+        startedAt: startedAtRef.current
+      }, spamProtection);
       
       const feedbackData: FeedbackData = {
-        rating: selectedRating,
-        feedback: feedback.trim(),
-        name: name.trim(),
-        email: email.trim(),
+        schemaVersion: FEEDBACK_SCHEMA_VERSION,
+        submissionId,
+        rating: selectedOption.value,
+        // Recorded in the default locale so reports group the same answer together
+        ratingLabel: createTranslator(DEFAULT_LOCALE)(selectedOption.label),
+        ratingScale: scale.id,
+        branch: getRatingBranch(baseSchema, scale.id, selectedOption.value)?.id ?? null,
+        ...serializedFields,
+        feedback: redaction.text,
+        consent: needsConsent && privacy?.consent && consentGivenAt !== null
+          ? createConsentRecord(privacy.consent, t(privacy.consent.text ?? 'privacy.consentText'), consentGivenAt)
+          : null,
+        redactions: redaction.counts,
+        sentiment,
+        sentimentMismatch,
+        locale,
+        spam,
+        metadata: collectMetadata(metadata, startedAtRef.current),
+        context: collectContext(context, metadata?.contextParams),
         timestamp: new Date().toISOString()
       };
       
       try {
-        const result = await submitToWebhook(feedbackData);
-        
-        if (result.success) {
-          console.log('Feedback submitted successfully:', feedbackData);
-          setIsSubmitted(true);
+        const result = await sendFeedback(feedbackData);
+        // Only a response actually saved for a retry counts as queued; otherwise the respondent sees the error
+        const queued = !result.success && result.retryable === true && queueSubmission(feedbackData, result.message);
+
+        if (result.success || queued) {
+          recordSubmission(submissionId, feedbackData.feedback);
+          clearDraft();
+          analytics.track('submit_succeeded', { submissionId, rating: feedbackData.rating, queued });
+          setReceipt({
+            submissionId,
+            rating: feedbackData.rating,
+            branch: feedbackData.branch,
+            queued,
+            ...(queued ? {} : { message: result.message, ticket: result.ticket })
+          });
+          onSubmitSuccess?.(feedbackData, { queued, ticket: queued ? undefined : result.ticket });
         } else {
-          setSubmitError(result.message || 'Failed to submit feedback');
+          reportSubmitError(result, feedbackData, 'rejected');
         }
       } catch (error) {
         console.error('Submission error:', error);
-        setSubmitError('An unexpected error occurred. Please try again.');
+        reportSubmitError({ success: false, message: 'errors.unexpected' }, feedbackData, 'error');
       } finally {
         setIsLoading(false);
       }
+    } else {
+      analytics.track('submit_failed', { reason: 'validation', message: null });
+      focusFirstInvalid([RATING_FIELD, ...visibleFields.map((field) => field.id)], {
+        ...validationErrors,
+        ...(hasRating ? {} : { [RATING_FIELD]: t('validation.ratingRequired') })
+      });
     }
   };
 
   const handleReset = (): void => {
+    analytics.track('form_reset', {});
     setSelectedRating(null);
-    setFeedback('');
-    setName('');
-    setEmail('');
-    setIsSubmitted(false);
+    setValues(getInitialValues(baseSchema));
+    setReceipt(null);
     setErrors({});
     setSubmitError('');
-    setIsFormValid(false);
-    setTouched({
-      feedback: false,
-      name: false,
-      email: false
-    });
+    setTouched({});
+    setHoneypotValue('');
+    setConsentGivenAt(null);
+    clearDraft();
+    wizard.reset();
+    startedAtRef.current = Date.now();
+    analytics.restart();
   };
 
-  // Dynamic class helpers for dark mode
-  const containerClasses = `min-h-screen w-full flex items-center justify-center p-4 transition-colors duration-200`;
-
-  const cardClasses = `w-full max-w-sm mx-auto rounded-xl shadow-lg overflow-hidden p-4 sm:p-6 border transition-colors duration-200 ${
-    isDarkMode 
-      ? 'bg-gray-800 border-gray-700' 
-      : 'bg-white border-gray-100'
-  }`;
-
-  const textClasses = `transition-colors duration-200 ${
-    isDarkMode ? 'text-gray-100' : 'text-gray-800'
-  }`;
-
-  const subtextClasses = `transition-colors duration-200 ${
-    isDarkMode ? 'text-gray-300' : 'text-gray-600'
-  }`;
-
-  const labelClasses = `block text-sm font-medium transition-colors duration-200 text-left ${
-    isDarkMode ? 'text-gray-200' : 'text-gray-700'
-  } mb-2`;
-
-  const inputClasses = (hasError: boolean) => 
-    `w-full p-3 border rounded-lg focus:ring-2 focus:border-transparent focus:outline-none transition-all duration-200 text-sm sm:text-base ${
-      hasError
-        ? 'border-red-500 focus:ring-red-500'
-        : isDarkMode
-        ? 'border-gray-600 bg-gray-700 text-gray-100 placeholder-gray-400 focus:ring-blue-500'
-        : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500 focus:ring-blue-500'
-    }`;
-
-  const textareaClasses = (hasError: boolean) =>
-    `w-full p-3 border rounded-lg focus:ring-2 focus:border-transparent resize-none focus:outline-none transition-all duration-200 text-sm sm:text-base ${
-      hasError
-        ? 'border-red-500 focus:ring-red-500'
-        : isDarkMode
-        ? 'border-gray-600 bg-gray-700 text-gray-100 placeholder-gray-400 focus:ring-blue-500'
-        : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500 focus:ring-blue-500'
-    }`;
-
-  const helperTextClasses = `text-xs sm:text-sm transition-colors duration-200 ${
-    isDarkMode ? 'text-gray-400' : 'text-gray-500'
-  } italic`;
-
-  if (isSubmitted) {
-    return (
-      <div className={containerClasses}>
-        <div className={cardClasses}>
-          <div className="text-center py-6">
-            <div className="flex justify-center mb-4">
-              <div className="w-16 h-16 rounded-full bg-green-100 dark:bg-green-900 flex items-center justify-center">
-                <FontAwesomeIcon icon={faCheckCircle} className="text-green-500 text-4xl" />
-              </div>
-            </div>
-            <h2 className={`text-xl sm:text-2xl font-bold mb-2 ${textClasses}`}>Thank You!</h2>
-            <p className={`text-sm sm:text-base mb-6 ${subtextClasses}`}>
-              Your feedback has been submitted successfully. We appreciate your input!
-            </p>
-            <button
-              onClick={handleReset}
-              className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 font-medium text-sm sm:text-base"
-            >
-              Submit Another Response
-            </button>
-          </div>
+  // Enter in single-line inputs or Ctrl/⌘+Enter anywhere continues; PageDown/PageUp step outside text areas
+  const handleStepKeyDown = (e: React.KeyboardEvent<HTMLDivElement>): void => {
+    const tagName = (e.target as HTMLElement).tagName;
+    const inTextArea = tagName === 'TEXTAREA';
+    const isAdvance = (e.key === 'Enter' && (e.ctrlKey || e.metaKey || tagName === 'INPUT')) ||
+      (e.key === 'PageDown' && !inTextArea);
+
+    if (isAdvance) {
+      e.preventDefault();
+      if (!wizard.isLast) {
+        handleNext();
+      } else if (allRequiredFilled && !isLoading && !isReadingFiles) {
+        void handleSubmit();
+      }
+    } else if (e.key === 'PageUp' && !inTextArea) {
+      e.preventDefault();
+      wizard.back();
+    }
+  };
+
+  // Colours come from the theme's CSS custom properties set on the container
+  const containerClasses = `${layout === 'page' ? 'min-h-screen p-4' : ''} w-full flex items-center justify-center transition-colors duration-200`;
+
+  const cardClasses = 'w-full max-w-sm mx-auto rounded-[calc(var(--sf-radius)*1.5)] shadow-lg overflow-hidden p-4 sm:p-6 border transition-colors duration-200 bg-[var(--sf-surface)] border-[color:var(--sf-border)]';
+
+  const textClasses = 'transition-colors duration-200 text-[color:var(--sf-text)]';
+
+  const subtextClasses = 'transition-colors duration-200 text-[color:var(--sf-text-muted)]';
+
+  const header = (
+    <>
+      {themeToggle && (
+        <div className="flex justify-end mb-2">
+          <ThemeToggle mode={themeState.mode} t={t} onChange={themeState.setMode} />
+        </div>
+      )}
+      {brand?.logo && (
+        <div className="flex justify-center mb-3">
+          <img src={brand.logo.src} alt={brand.logo.alt} className="h-10 max-w-full object-contain" />
         </div>
+      )}
+    </>
+  );
+
+  if (receipt) {
+    return (
+      <div className={containerClasses} style={themeState.style} dir={dir} lang={locale}>
+        <section ref={cardRef} className={cardClasses} aria-labelledby={ids.title}>
+          {header}
+          <ThankYouScreen
+            screen={resolveThankYouScreen(thankYou, scale.id, receipt)}
+            receipt={receipt}
+            t={t}
+            titleId={ids.title}
+            headingRef={headingRef}
+            onReset={handleReset}
+          />
+        </section>
       </div>
     );
   }
 
   return (
-    <div className={containerClasses}>
-      <div className={cardClasses}>
+    <div className={containerClasses} style={themeState.style} dir={dir} lang={locale}>
+      <section ref={cardRef} className={cardClasses} aria-labelledby={ids.title}>
+        {header}
         <div>
           <div className="text-center mb-4 sm:mb-6">
-            <h2 className={`text-xl sm:text-2xl font-bold mb-2 ${textClasses}`}>
-              How was your experience?
+            <h2
+              ref={headingRef}
+              id={ids.title}
+              tabIndex={-1}
+              className={`text-xl sm:text-2xl font-bold mb-2 focus:outline-none ${textClasses}`}
+            >
+              {t(title)}
             </h2>
-            <p className={`text-sm sm:text-base ${subtextClasses}`}>
-              Please rate your overall satisfaction
+            <p id={ids.subtitle} className={`text-sm sm:text-base ${subtextClasses}`}>
+              {t(subtitle)}
             </p>
           </div>
 
-          {/* Progress indicator */}
-          <div className="mb-4 sm:mb-6">
-            <div className="flex items-center justify-center space-x-2">
-              {[1, 2, 3].map((step) => (
-                <div
-                  key={step}
-                  className={`h-2 w-2 rounded-full transition-colors duration-200 ${
-                    (step === 1 && selectedRating !== null) ||
-                    (step === 2 && feedback.trim() !== '') ||
-                    (step === 3 && name.trim() !== '' && email.trim() !== '')
-                      ? 'bg-blue-500'
-                      : isDarkMode ? 'bg-gray-600' : 'bg-gray-300'
-                  }`}
+          {/* Unfinished response from an earlier visit */}
+          {pendingDraft && (
+            <div className="mb-4 sm:mb-6 p-3 border rounded-[var(--sf-radius)] text-sm text-start transition-colors duration-200 bg-[var(--sf-info-surface)] border-[color:var(--sf-info-border)] text-[color:var(--sf-info)]">
+              <p className="mb-3">
+                <FontAwesomeIcon icon={faClockRotateLeft} className="me-2" />
+                {t('draft.prompt', {
+                  savedAt: new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(pendingDraft.savedAt)
+                })}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleResumeDraft}
+                  className={`${primaryButtonClasses} px-3 py-1.5`}
+                >
+                  {t('draft.resume')}
+                </button>
+                <button
+                  type="button"
+                  onClick={clearDraft}
+                  className={`px-3 py-1.5 rounded-[var(--sf-radius)] font-medium transition-colors hover:bg-[var(--sf-surface-hover)] ${focusRingClasses}`}
+                >
+                  {t('draft.discard')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isMultiStep && (
+            <StepProgress
+              steps={steps}
+              currentIndex={wizard.currentIndex}
+              t={t}
+              canReach={wizard.canReach}
+              isComplete={isStepComplete}
+              onSelect={wizard.goTo}
+            />
+          )}
+
+          {/* Honeypot: invisible to people and assistive tech, tempting to form-filling bots */}
+          {spamConfig.honeypot && (
+            <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', width: '1px', height: '1px', overflow: 'hidden' }}>
+              <label>
+                Leave this field empty
+                <input
+                  type="text"
+                  name="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={honeypotValue}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHoneypotValue(e.target.value)}
                 />
-              ))}
+              </label>
             </div>
-          </div>
+          )}
 
-          {/* Emoji Rating Section */}
-          <div className="mb-6 sm:mb-8">
-            <div className="flex justify-center space-x-3 sm:space-x-6 mb-4">
-              {emojis.map((item: Emoji) => {
-                const isSelected = selectedRating === item.value;
-                const isHovered = hoveredRating === item.value;
-                
-                return (
-                  <button
-                    key={item.value}
-                    type="button"
-                    onClick={() => setSelectedRating(item.value)}
-                    onMouseEnter={() => setHoveredRating(item.value)}
-                    onMouseLeave={() => setHoveredRating(null)}
-                    className={`p-2 sm:p-3 rounded-full transition-all duration-300 hover:scale-110 outline-none hover:outline-none focus:outline-none ${
-                      isSelected || isHovered ? '' : isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+          {/* Current step */}
+          <div onKeyDown={handleStepKeyDown} onFocus={handleStepFocus} onBlur={handleStepBlur} onPaste={handleStepPaste}>
+            <StepTransition key={currentStep.id} direction={wizard.direction}>
+              {isMultiStep && (
+                <div className="mb-4 text-start">
+                  <h3
+                    ref={stepHeadingRef}
+                    tabIndex={-1}
+                    className={`text-base sm:text-lg font-semibold focus:outline-none ${textClasses}`}
+                  >
+                    {t(currentStep.title)}
+                  </h3>
+                  {currentStep.description && (
+                    <p className={`text-sm ${subtextClasses}`}>{t(currentStep.description)}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Rating Section */}
+              {stepHasRating(currentStep) && (
+                <div className="mb-6 sm:mb-8">
+                  <div
+                    role="radiogroup"
+                    aria-labelledby={ids.subtitle}
+                    aria-required="true"
+                    aria-invalid={ratingError ? true : undefined}
+                    aria-describedby={ratingError ? ids.ratingError : undefined}
+                    className={`flex flex-wrap justify-center mb-4 ${
+                      scale.options.length > 5 ? 'gap-1' : 'gap-3 sm:gap-6'
                     }`}
-                    style={(isSelected || isHovered) ? { 
-                      boxShadow: `0 0 0 3px ${item.ringColor}, 0 4px 12px rgba(0,0,0,0.1)`,
-                      transform: (isSelected || isHovered) ? 'scale(1.1)' : 'scale(1)',
-                      backgroundColor: (isSelected || isHovered) ? (isDarkMode ? item.bgColorDark : item.bgColor) : 'transparent'
-                    } : {}}
-                    title={item.label}
-                    aria-label={`Rate ${item.label}`}
                   >
-                    {renderEmojiSVG(item.value)}
-                  </button>
-                );
-              })}
-            </div>
+                    {scale.options.map((item: RatingOption, index) => {
+                      const isSelected = selectedRating === item.value;
+                      const isHovered = hoveredRating === item.value;
+                      const activeValue = hoveredRating ?? selectedRating;
+                      const isLit = !scale.cumulative || (activeValue !== null && item.value <= activeValue);
+                      const isHighlighted = !scale.cumulative && (isSelected || isHovered);
+                      // Roving tabindex: only the checked option (or the first, before any choice) is in the tab order
+                      const isTabStop = hasRating ? isSelected : index === 0;
+
+                      return (
+                        <button
+                          key={item.value}
+                          ref={(element) => { ratingRefs.current[index] = element; }}
+                          type="button"
+                          role="radio"
+                          aria-checked={isSelected}
+                          tabIndex={isTabStop ? 0 : -1}
+                          onClick={() => handleRatingSelect(item)}
+                          onKeyDown={(e) => handleRatingKeyDown(e, index)}
+                          onMouseEnter={() => {
+                            setHoveredRating(item.value);
+                            analytics.track('rating_hovered', { rating: item.value });
+                          }}
+                          onMouseLeave={() => setHoveredRating(null)}
+                          className={`${item.icon ? 'p-2 sm:p-3' : 'p-0.5'} rounded-full transition-all duration-300 hover:scale-110 focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-4 focus-visible:outline-[color:var(--sf-focus-ring)] ${
+                            isHighlighted ? '' : 'hover:bg-[var(--sf-surface-hover)]'
+                          }`}
+                          style={isHighlighted ? { 
+                            boxShadow: `0 0 0 3px ${ratingToneColor(item.tone)}, 0 4px 12px rgba(0,0,0,0.1)`,
+                            transform: 'scale(1.1)',
+                            backgroundColor: ratingToneSurface(item.tone)
+                          } : {}}
+                          title={t(item.label)}
+                          aria-label={t(item.label)}
+                        >
+                          {renderRatingIcon(item, isLit)}
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  {(scale.minLabel || scale.maxLabel) && (
+                    <div className={`flex justify-between text-xs mb-4 ${subtextClasses}`}>
+                      <span>{scale.minLabel && t(scale.minLabel)}</span>
+                      <span>{scale.maxLabel && t(scale.maxLabel)}</span>
+                    </div>
+                  )}
             
-            {selectedRating && (
-              <div className="text-center">
-                <span 
-                  className="text-xs sm:text-sm font-medium px-3 py-1 rounded-full transition-colors duration-200"
-                  style={{ 
-                    color: emojis[selectedRating - 1]?.ringColor,
-                    backgroundColor: isDarkMode ? emojis[selectedRating - 1]?.bgColorDark : emojis[selectedRating - 1]?.bgColor
-                  }}
-                >
-                  {emojis[selectedRating - 1]?.label}
-                </span>
-              </div>
-            )}
-          </div>
+                  {selectedOption && (
+                    <div className="text-center">
+                      <span 
+                        className="text-xs sm:text-sm font-medium px-3 py-1 rounded-full transition-colors duration-200"
+                        style={{ 
+                          color: ratingToneColor(selectedOption.tone),
+                          backgroundColor: ratingToneSurface(selectedOption.tone)
+                        }}
+                      >
+                        {t(selectedOption.label)}
+                      </span>
+                    </div>
+                  )}
 
-          {/* Text Area Section */}
-          {selectedRating && (
-            <div className="mb-4 sm:mb-6 transition-all duration-500 ease-in-out">
-              <label htmlFor="feedback" className={labelClasses}>
-                Please share what worked well or what could be improved
-              </label>
-              <textarea
-                id="feedback"
-                value={feedback}
-                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFeedback(e.target.value)}
-                onBlur={() => handleBlur('feedback')}
-                className={textareaClasses(touched.feedback && !!errors.feedback)}
-                rows={4}
-                placeholder="Your detailed feedback helps us improve our service..."
-              />
-              {touched.feedback && errors.feedback && (
-                <div className="flex items-center mt-1 text-red-500 text-sm">
-                  <FontAwesomeIcon icon={faExclamationCircle} className="mr-1" />
-                  <span>{errors.feedback}</span>
+                  <div id={ids.ratingError} aria-live="polite">
+                    {ratingError && (
+                      <div className={`flex items-center justify-center mt-1 ${errorTextClasses}`}>
+                        <FontAwesomeIcon icon={faExclamationCircle} className="me-1" />
+                        <span>{ratingError}</span>
+                      </div>
+                    )}
+                  </div>
                 </div>
               )}
-            </div>
-          )}
 
-          {/* Contact Information Section */}
-          {selectedRating && feedback.trim() && (
-            <div className="mb-4 sm:mb-6 transition-all duration-500 ease-in-out">
-              <div className="space-y-4">
-                <div>
-                  <label htmlFor="name" className={labelClasses}>
-                    Full Name / Company Name
-                  </label>
-                  <input
-                    id="name"
-                    type="text"
-                    value={name}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
-                    onBlur={() => handleBlur('name')}
-                    className={inputClasses(touched.name && !!errors.name)}
-                    placeholder="Enter your name or company name"
-                  />
-                  {touched.name && errors.name && (
-                    <div className="flex items-center mt-1 text-red-500 text-sm">
-                      <FontAwesomeIcon icon={faExclamationCircle} className="mr-1" />
-                      <span>{errors.name}</span>
-                    </div>
-                  )}
+              {/* Schema Fields */}
+              {stepFields.map((field) => (
+                <SchemaField
+                  key={field.id}
+                  field={field}
+                  value={values[field.id]}
+                  error={shownErrors[field.id]}
+                  isValidating={touched[field.id] && asyncValidation.pending.includes(field.id)}
+                  isReadingFiles={(pendingFileReads[field.id] ?? 0) > 0}
+                  t={t}
+                  onChange={(value) => handleChange(field.id, value)}
+                  onBlur={() => handleBlur(field.id)}
+                  onAddFiles={(files) => void addFiles(field, files)}
+                />
+              ))}
+
+              {/* Rating / text contradiction notice */}
+              {sentimentMismatch && selectedOption && (wizard.isLast || stepFields.some((field) => field.id === 'feedback')) && (
+                <div className="mb-4 sm:mb-6 p-3 border rounded-[var(--sf-radius)] text-sm text-start transition-colors duration-200 bg-[var(--sf-warning-surface)] border-[color:var(--sf-warning-border)] text-[color:var(--sf-warning)]">
+                  <FontAwesomeIcon icon={faCircleQuestion} className="me-2" />
+                  {t('sentiment.mismatch', { sentiment: t(`sentiment.${sentiment.label}`), rating: t(selectedOption.label) })}
                 </div>
-                <div>
-                  <label htmlFor="email" className={labelClasses}>
-                    Email Address
+              )}
+
+              {/* Consent for the contact details, recorded with its policy version and time */}
+              {wizard.isLast && needsConsent && privacy?.consent && (
+                <div className="mb-4 sm:mb-6 text-start">
+                  <label className="flex items-start gap-2 text-sm cursor-pointer text-[color:var(--sf-text)]">
+                    <input
+                      type="checkbox"
+                      aria-required="true"
+                      checked={consentGivenAt !== null}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConsentGivenAt(e.target.checked ? Date.now() : null)}
+                      className={`${choiceInputClasses} rounded mt-0.5 shrink-0`}
+                    />
+                    <span>{t(privacy.consent.text ?? 'privacy.consentText')}</span>
                   </label>
-                  <input
-                    id="email"
-                    type="email"
-                    value={email}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
-                    onBlur={() => handleBlur('email')}
-                    className={inputClasses(touched.email && !!errors.email)}
-                    placeholder="Enter your email address"
-                  />
-                  {touched.email && errors.email && (
-                    <div className="flex items-center mt-1 text-red-500 text-sm">
-                      <FontAwesomeIcon icon={faExclamationCircle} className="mr-1" />
-                      <span>{errors.email}</span>
-                    </div>
+                  {privacy.consent.policyUrl && (
+                    <a
+                      href={privacy.consent.policyUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`ms-6 text-sm underline text-[color:var(--sf-info)] rounded ${focusRingClasses}`}
+                    >
+                      {t('privacy.policyLink')}
+                    </a>
                   )}
                 </div>
-              </div>
-            </div>
-          )}
+              )}
+            </StepTransition>
 
-          {/* Submit Button */}
-          {selectedRating && feedback.trim() && name.trim() && email.trim() && (
+            {/* Step navigation and submit */}
             <div className="transition-all duration-500 ease-in-out">
-              <button
-                onClick={handleSubmit}
-                disabled={isLoading || !isFormValid}
-                className={`w-full py-3 px-4 rounded-lg font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 flex items-center justify-center text-sm sm:text-base ${
-                  isFormValid && !isLoading
-                    ? 'bg-blue-500 hover:bg-blue-600 text-white cursor-pointer'
-                    : isDarkMode ? 'bg-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                }`}
-              >
-                {isLoading ? (
-                  <>
-                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    Submitting...
-                  </>
-                ) : 'Submit Feedback'}
-              </button>
-              
-              {/* Error message */}
-              {submitError && (
-                <div className={`mt-3 p-3 border rounded-lg transition-colors duration-200 ${
-                  isDarkMode ? 'bg-red-900/20 border-red-800' : 'bg-red-50 border-red-200'
-                }`}>
-                  <div className="flex items-center text-red-700 dark:text-red-400 text-sm">
-                    <FontAwesomeIcon icon={faExclamationCircle} className="mr-2" />
-                    <span>{submitError}</span>
+              <div className="flex gap-3">
+                {!wizard.isFirst && (
+                  <button
+                    type="button"
+                    onClick={wizard.back}
+                    aria-keyshortcuts="PageUp"
+                    className={`${secondaryButtonClasses} py-3 px-4 text-sm sm:text-base`}
+                  >
+                    {t('wizard.back')}
+                  </button>
+                )}
+
+                {!wizard.isLast && (
+                  <button
+                    type="button"
+                    onClick={handleNext}
+                    aria-keyshortcuts="Control+Enter Meta+Enter PageDown"
+                    className={`${primaryButtonClasses} flex-1 py-3 px-4 text-sm sm:text-base`}
+                  >
+                    {t('wizard.next')}
+                  </button>
+                )}
+
+                {wizard.isLast && allRequiredFilled && (
+                  <button
+                    onClick={handleSubmit}
+                    disabled={isLoading || isReadingFiles}
+                    aria-busy={isLoading || isReadingFiles || undefined}
+                    aria-keyshortcuts="Control+Enter Meta+Enter PageDown"
+                    className={`flex-1 py-3 px-4 flex items-center justify-center text-sm sm:text-base ${
+                      isFormValid && !isLoading && !isReadingFiles
+                        ? `${primaryButtonClasses} cursor-pointer`
+                        : `${disabledButtonClasses} ${focusRingClasses}`
+                    }`}
+                  >
+                    {isReadingFiles ? t('attachments.processing') : isLoading ? (
+                      <>
+                        <svg className="animate-spin -ms-1 me-3 h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        {t('form.submitting')}
+                      </>
+                    ) : t('form.submit')}
+                  </button>
+                )}
+              </div>
+
+              {/* Error message; the alert region stays mounted so every new message is announced */}
+              <div role="alert">
+                {submitError && (
+                  <div className="mt-3 p-3 border rounded-[var(--sf-radius)] transition-colors duration-200 bg-[var(--sf-danger-surface)] border-[color:var(--sf-danger-border)]">
+                    <div className={`flex items-center ${errorTextClasses}`}>
+                      <FontAwesomeIcon icon={faExclamationCircle} className="me-2" />
+                      <span>{submitError}</span>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          )}
+          </div>
 
           {/* Helper text */}
-          <div className="mt-4 text-center">
-            {!selectedRating && (
-              <p className="text-xs sm:text-sm text-gray-500">
-                👆 Please select a rating to continue
+          <div className="mt-4 text-center" aria-live="polite">
+            {!hasRating && (
+              <p className="text-xs sm:text-sm text-[color:var(--sf-text-subtle)]">
+                {t('hints.selectRating')}
               </p>
             )}
             
-            {selectedRating && !feedback.trim() && (
-              <p className="text-xs sm:text-sm text-gray-500">
-                ✏️ Please provide your feedback to continue
+            {hasRating && firstMissingField && (
+              <p className="text-xs sm:text-sm text-[color:var(--sf-text-subtle)]">
+                {t(firstMissingField.hint ?? 'hints.completeRequired')}
               </p>
             )}
-            
-            {selectedRating && feedback.trim() && (!name.trim() || !email.trim()) && (
-              <p className="text-xs sm:text-sm text-gray-500">
-                📝 Please fill in your contact information to submit
+
+            {hasRating && !firstMissingField && consentMissing && (
+              <p className="text-xs sm:text-sm text-[color:var(--sf-text-subtle)]">
+                {t('privacy.consentHint')}
               </p>
             )}
 
-            {selectedRating && feedback.trim() && name.trim() && email.trim() && !isFormValid && (
-              <p className="text-xs sm:text-sm text-red-500 dark:text-red-400 italic transition-colors duration-200">
-                Please fix the validation errors above
+            {allRequiredFilled && !isFormValid && (
+              <p className="text-xs sm:text-sm text-[color:var(--sf-danger)] italic transition-colors duration-200">
+                {t('hints.fixErrors')}
               </p>
             )}
           </div>
         </div>
-      </div>
+      </section>
     </div>
   );
 };
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { FormStep } from '../types/formSchema';
+import type { Translate } from '../i18n';
+import { focusRingClasses } from '../theme/classes';
+
+interface StepProgressProps {
+  steps: FormStep[];
+  currentIndex: number;
+  t: Translate;
+  canReach: (index: number) => boolean;
+  isComplete: (step: FormStep) => boolean;
+  onSelect: (index: number) => void;
+}
+
+// Segmented progress bar; each segment is a button that jumps to its step once that step is reachable
+const StepProgress: React.FC<StepProgressProps> = ({ steps, currentIndex, t, canReach, isComplete, onSelect }) => (
+  <nav aria-label={t('wizard.progress')} className="mb-4 sm:mb-6">
+    <ol className="flex items-center gap-2">
+      {steps.map((step, index) => {
+        const isCurrent = index === currentIndex;
+        const complete = isComplete(step);
+        const label = t('wizard.stepLabel', { current: index + 1, total: steps.length, title: t(step.title) });
+
+        return (
+          <li key={step.id} className="flex-1">
+            <button
+              type="button"
+              onClick={() => onSelect(index)}
+              disabled={!canReach(index)}
+              aria-current={isCurrent ? 'step' : undefined}
+              aria-label={complete ? `${label}, ${t('wizard.completed')}` : label}
+              title={t(step.title)}
+              className={`block w-full py-2 rounded disabled:cursor-not-allowed ${focusRingClasses}`}
+            >
+              <span
+                className={`block h-2 rounded-full transition-colors duration-200 ${
+                  isCurrent || complete ? 'bg-[var(--sf-primary)]' : 'bg-[var(--sf-disabled)]'
+                } ${isCurrent ? 'ring-2 ring-[color:var(--sf-focus-ring)] ring-offset-1 ring-offset-[color:var(--sf-surface)]' : ''}`}
+              />
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+    <p className="text-xs text-center transition-colors duration-200 text-[color:var(--sf-text-subtle)]">
+      {t('wizard.stepOf', { current: currentIndex + 1, total: steps.length })}
+    </p>
+  </nav>
+);
+
+export default StepProgress;
@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import type { StepDirection } from '../hooks/useWizard';
+
+interface StepTransitionProps {
+  direction: StepDirection;
+  children: React.ReactNode;
+}
+
+// Slides the step in from the side it was navigated towards. Give it a new `key` per step so it remounts.
+const StepTransition: React.FC<StepTransitionProps> = ({ direction, children }) => {
+  const [entered, setEntered] = useState(false);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setEntered(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const offset = direction === 'forward'
+    ? 'translate-x-4 rtl:-translate-x-4'
+    : '-translate-x-4 rtl:translate-x-4';
+
+  return (
+    <div className={`transition-all duration-300 ease-out motion-reduce:transition-none ${
+      entered ? 'opacity-100 translate-x-0' : `opacity-0 ${offset}`
+    }`}>
+      {children}
+    </div>
+  );
+};
+
+export default StepTransition;
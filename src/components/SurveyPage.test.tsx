@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import SurveyPage from './SurveyPage';
+
+const DEFINITION = {
+  id: 'app-nps',
+  title: 'Would you recommend the app?',
+  scale: 'nps-11',
+  locale: 'en',
+  delivery: { webhookUrl: 'https://example.test/hook' }
+};
+
+// Answers the definition request with `definition` and any other request with `others`
+const serve = (definition: unknown, others: unknown = {}) =>
+  vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+    url.endsWith('.json')
+      ? new Response(JSON.stringify(definition), { status: definition ? 200 : 404, headers: { 'Content-Type': 'application/json' } })
+      : new Response(JSON.stringify(others), { headers: { 'Content-Type': 'application/json' } })));
+
+describe('SurveyPage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('shows the survey form with its own title and scale', async () => {
+    serve(DEFINITION);
+    render(<SurveyPage surveyId="app-nps" />);
+
+    expect(screen.getByText('Loading survey…')).toBeTruthy();
+    expect(await screen.findByRole('heading', { name: 'Would you recommend the app?' })).toBeTruthy();
+    expect(screen.getAllByRole('radio')).toHaveLength(11);
+  });
+
+  it('says when a survey has ended or reached its response cap', async () => {
+    serve({ ...DEFINITION, closing: { endsAt: '2020-03-01T12:00:00Z' } });
+    const { unmount } = render(<SurveyPage surveyId="app-nps" />);
+
+    expect(await screen.findByRole('heading', { name: 'This survey is closed' })).toBeTruthy();
+    expect(screen.getByText(/stopped taking responses on March 1, 2020/)).toBeTruthy();
+    unmount();
+
+    serve({ ...DEFINITION, closing: { maxResponses: 3, responseCountUrl: '/count' } }, { count: 3 });
+    render(<SurveyPage surveyId="app-nps" />);
+
+    expect(await screen.findByText(/received all the responses it needs/)).toBeTruthy();
+    expect(screen.queryByRole('radio')).toBeNull();
+  });
+
+  it('explains unknown survey ids', async () => {
+    serve(null);
+    render(<SurveyPage surveyId="nope" />);
+
+    expect(await screen.findByRole('heading', { name: 'Survey not found' })).toBeTruthy();
+  });
+});
@@ -0,0 +1,105 @@
+import React, { useId } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCircleExclamation, faLock, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import SentimentAnalysisForm from './SentimentAnalysisForm';
+import { RATING_SCALES } from '../config/ratingScales';
+import { useSurvey } from '../hooks/useSurvey';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme } from '../hooks/useTheme';
+import { primaryButtonClasses } from '../theme/classes';
+
+interface SurveyPageProps {
+  surveyId: string;
+}
+
+const containerClasses = 'min-h-screen p-4 w-full flex items-center justify-center transition-colors duration-200';
+const cardClasses = 'w-full max-w-sm mx-auto rounded-[calc(var(--sf-radius)*1.5)] shadow-lg overflow-hidden p-4 sm:p-6 border text-center transition-colors duration-200 bg-[var(--sf-surface)] border-[color:var(--sf-border)]';
+const textClasses = 'transition-colors duration-200 text-[color:var(--sf-text)]';
+const subtextClasses = 'transition-colors duration-200 text-[color:var(--sf-text-muted)]';
+
+// The survey served at /s/:surveyId: its form while it takes responses, otherwise a loading, missing or
+// closed notice in the survey's own language and theme
+const SurveyPage: React.FC<SurveyPageProps> = ({ surveyId }) => {
+  const survey = useSurvey(surveyId);
+  const titleId = useId();
+  const definition = survey.status === 'open' || survey.status === 'closed' ? survey.definition : undefined;
+  const { locale, dir, t } = useI18n(definition?.locale);
+  const { style } = useTheme(definition?.theme ?? 'system', definition?.brand);
+
+  if (survey.status === 'open') {
+    const config = survey.definition;
+    return (
+      <SentimentAnalysisForm
+        scale={config.scale ? RATING_SCALES[config.scale] : undefined}
+        schema={config.schema}
+        title={config.title}
+        subtitle={config.subtitle}
+        webhookUrl={config.delivery.webhookUrl}
+        adapter={config.delivery.adapter}
+        attachmentEncoding={config.delivery.attachmentEncoding}
+        draft={{ key: `survey:${surveyId}` }}
+        context={{ ...config.context, surveyId }}
+        metadata={config.metadata}
+        privacy={config.privacy}
+        thankYou={config.thankYou}
+        theme={config.theme}
+        brand={config.brand}
+        locale={config.locale}
+      />
+    );
+  }
+
+  const closedMessage = (): string => {
+    if (survey.status !== 'closed') {
+      return '';
+    }
+    if (survey.definition.closing?.message) {
+      return t(survey.definition.closing.message);
+    }
+    if (survey.reason === 'ended' && survey.definition.closing?.endsAt) {
+      const endedAt = new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(new Date(survey.definition.closing.endsAt));
+      return t('survey.ended', { date: endedAt });
+    }
+    return t(survey.reason === 'full' ? 'survey.full' : 'survey.closedMessage');
+  };
+
+  const notice = {
+    loading: { icon: faSpinner, title: 'survey.loading', message: '' },
+    'not-found': { icon: faCircleExclamation, title: 'survey.notFound', message: t('survey.notFoundMessage') },
+    error: { icon: faCircleExclamation, title: 'survey.loadError', message: t('survey.loadErrorMessage') },
+    closed: { icon: faLock, title: 'survey.closed', message: closedMessage() }
+  }[survey.status];
+
+  return (
+    <div className={containerClasses} style={style} dir={dir} lang={locale}>
+      <section className={cardClasses} aria-labelledby={titleId} aria-busy={survey.status === 'loading' || undefined}>
+        {definition?.brand?.logo && (
+          <div className="flex justify-center mb-3">
+            <img src={definition.brand.logo.src} alt={definition.brand.logo.alt} className="h-10 max-w-full object-contain" />
+          </div>
+        )}
+        <FontAwesomeIcon
+          icon={notice.icon}
+          spin={survey.status === 'loading'}
+          className="text-3xl mb-4 text-[color:var(--sf-text-subtle)]"
+        />
+        {definition?.title && <p className={`text-sm mb-1 ${subtextClasses}`}>{t(definition.title)}</p>}
+        <h2 id={titleId} className={`text-xl sm:text-2xl font-bold mb-2 ${textClasses}`}>
+          {t(notice.title)}
+        </h2>
+        {notice.message && <p className={`text-sm sm:text-base ${subtextClasses}`}>{notice.message}</p>}
+        {survey.status === 'error' && (
+          <button
+            type="button"
+            onClick={() => window.location.reload()}
+            className={`${primaryButtonClasses} mt-4 px-6 py-3 text-sm sm:text-base`}
+          >
+            {t('survey.retry')}
+          </button>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SurveyPage;
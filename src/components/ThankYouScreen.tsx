@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheckCircle } from '@fortawesome/free-solid-svg-icons';
+import type { Translate } from '../i18n';
+import { fillUrlTemplate, type SubmissionReceipt, type ThankYouAction, type ThankYouScreen as ThankYouScreenConfig } from '../utils/thankYou';
+import { focusRingClasses, primaryButtonClasses, secondaryButtonClasses } from '../theme/classes';
+
+interface ThankYouScreenProps {
+  screen: ThankYouScreenConfig;
+  receipt: SubmissionReceipt;
+  t: Translate;
+  titleId: string;
+  headingRef: React.Ref<HTMLHeadingElement>;
+  onReset: () => void;
+}
+
+const textClasses = 'transition-colors duration-200 text-[color:var(--sf-text)]';
+const subtextClasses = 'transition-colors duration-200 text-[color:var(--sf-text-muted)]';
+
+const ThankYouScreen: React.FC<ThankYouScreenProps> = ({ screen, receipt, t, titleId, headingRef, onReset }) => {
+  const params = { ticket: receipt.ticket ?? '', rating: receipt.rating };
+  const redirect = screen.redirect;
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(redirect ? Math.max(0, redirect.afterSeconds) : null);
+  const [status, setStatus] = useState<string>('');
+
+  // One tick per second; the respondent can stop the countdown, as automatic redirects must be cancellable
+  useEffect(() => {
+    if (!redirect || secondsLeft === null) {
+      return;
+    }
+    if (secondsLeft === 0) {
+      window.location.assign(fillUrlTemplate(redirect.url, receipt));
+      return;
+    }
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [redirect, secondsLeft, receipt]);
+
+  const handleShare = async (action: Extract<ThankYouAction, { type: 'share' }>): Promise<void> => {
+    const url = fillUrlTemplate(action.url, receipt);
+    const text = action.text ? t(action.text, params) : undefined;
+    try {
+      if (navigator.share) {
+        await navigator.share({ url, text });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setStatus(t('thankYou.linkCopied'));
+    } catch {
+      // Dismissing the share sheet rejects too; neither case needs a message
+    }
+  };
+
+  // The receiver's message replaces the configured one; a queued response has not reached the receiver yet
+  const message = receipt.message ?? screen.message ?? (receipt.queued ? undefined : 'thankYou.message');
+  const actionClasses = (action: ThankYouAction) =>
+    `${action.primary ? primaryButtonClasses : secondaryButtonClasses} inline-block px-6 py-3 text-sm sm:text-base`;
+
+  return (
+    <div className="text-center py-6">
+      <div className="flex justify-center mb-4">
+        <div className="w-16 h-16 rounded-full bg-[var(--sf-success-surface)] flex items-center justify-center">
+          <FontAwesomeIcon icon={faCheckCircle} className="text-[color:var(--sf-success)] text-4xl" />
+        </div>
+      </div>
+      <h2
+        ref={headingRef}
+        id={titleId}
+        tabIndex={-1}
+        className={`text-xl sm:text-2xl font-bold mb-2 focus:outline-none ${textClasses}`}
+      >
+        {t(screen.title ?? 'thankYou.title', params)}
+      </h2>
+      {message && (
+        <p className={`text-sm sm:text-base mb-4 ${subtextClasses}`}>{t(message, params)}</p>
+      )}
+      {receipt.queued && (
+        <p className={`text-sm sm:text-base mb-4 ${subtextClasses}`}>{t('thankYou.queuedMessage')}</p>
+      )}
+      {receipt.ticket && (
+        <p className={`text-sm mb-4 ${textClasses}`}>
+          {t('thankYou.ticket', { ticket: receipt.ticket })}
+        </p>
+      )}
+
+      {screen.actions && screen.actions.length > 0 && (
+        <div className="flex flex-col gap-2 mb-4">
+          {screen.actions.map((action) =>
+            action.type === 'share' ? (
+              <button
+                key={action.label}
+                type="button"
+                onClick={() => void handleShare(action)}
+                className={actionClasses(action)}
+              >
+                {t(action.label, params)}
+              </button>
+            ) : (
+              <a
+                key={action.label}
+                href={fillUrlTemplate(action.url, receipt)}
+                {...(action.newTab === false ? {} : { target: '_blank', rel: 'noopener noreferrer' })}
+                className={actionClasses(action)}
+              >
+                {t(action.label, params)}
+              </a>
+            )
+          )}
+        </div>
+      )}
+      {screen.actions?.some((action) => action.type === 'share') && (
+        <p role="status" className={`text-sm mb-2 ${subtextClasses}`}>{status}</p>
+      )}
+
+      {redirect && secondsLeft !== null && (
+        <div className={`text-sm mb-4 ${subtextClasses}`}>
+          <p>{t('thankYou.redirecting', { count: secondsLeft })}</p>
+          <button
+            type="button"
+            onClick={() => setSecondsLeft(null)}
+            className={`mt-1 underline rounded text-[color:var(--sf-info)] ${focusRingClasses}`}
+          >
+            {t('thankYou.stayOnPage')}
+          </button>
+        </div>
+      )}
+
+      {screen.submitAnother !== false && (
+        <button
+          onClick={onReset}
+          className={`${primaryButtonClasses} px-6 py-3 text-sm sm:text-base`}
+        >
+          {t('thankYou.submitAnother')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ThankYouScreen;
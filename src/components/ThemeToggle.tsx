@@ -0,0 +1,51 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCircleHalfStroke, faMoon, faSun } from '@fortawesome/free-solid-svg-icons';
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import type { Translate } from '../i18n';
+import type { ThemeMode } from '../theme';
+import { focusRingClasses } from '../theme/classes';
+
+interface ThemeToggleProps {
+  mode: ThemeMode;
+  t: Translate;
+  onChange: (mode: ThemeMode) => void;
+}
+
+const OPTIONS: Array<{ mode: ThemeMode; icon: IconDefinition; label: string }> = [
+  { mode: 'light', icon: faSun, label: 'theme.light' },
+  { mode: 'dark', icon: faMoon, label: 'theme.dark' },
+  { mode: 'system', icon: faCircleHalfStroke, label: 'theme.system' }
+];
+
+// Compact segmented control; a high-contrast mode set by the host leaves every option unpressed
+const ThemeToggle: React.FC<ThemeToggleProps> = ({ mode, t, onChange }) => (
+  <div
+    role="group"
+    aria-label={t('theme.label')}
+    className="inline-flex gap-0.5 p-0.5 rounded-full border border-[color:var(--sf-border)]"
+  >
+    {OPTIONS.map((option) => {
+      const isActive = option.mode === mode;
+      return (
+        <button
+          key={option.mode}
+          type="button"
+          onClick={() => onChange(option.mode)}
+          aria-pressed={isActive}
+          aria-label={t(option.label)}
+          title={t(option.label)}
+          className={`h-7 w-7 rounded-full flex items-center justify-center text-xs transition-colors ${focusRingClasses} ${
+            isActive
+              ? 'bg-[var(--sf-primary)] text-[color:var(--sf-on-primary)]'
+              : 'text-[color:var(--sf-text-subtle)] hover:bg-[var(--sf-surface-hover)]'
+          }`}
+        >
+          <FontAwesomeIcon icon={option.icon} />
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default ThemeToggle;
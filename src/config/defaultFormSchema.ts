@@ -0,0 +1,100 @@
+import type { FieldOverride, FormSchema } from '../types/formSchema';
+import { CSAT_SCALE, EMOJI_SCALE, NPS_SCALE, STAR_SCALE, THUMBS_SCALE } from './ratingScales';
+
+const UNSATISFIED_OVERRIDES: Record<string, FieldOverride> = {
+  feedback: { label: 'fields.feedback.unsatisfiedLabel', placeholder: 'fields.feedback.unsatisfiedPlaceholder' }
+};
+
+const SATISFIED_OVERRIDES: Record<string, FieldOverride> = {
+  feedback: { label: 'fields.feedback.satisfiedLabel', placeholder: 'fields.feedback.satisfiedPlaceholder' }
+};
+
+// Ratings that count as unsatisfied or satisfied on each built-in scale; anything else keeps the generic prompt
+const FOLLOW_UP_RATINGS: Record<string, { unsatisfied: number[]; satisfied: number[] }> = {
+  [EMOJI_SCALE.id]: { unsatisfied: [1], satisfied: [3] },
+  [CSAT_SCALE.id]: { unsatisfied: [1, 2], satisfied: [4, 5] },
+  [STAR_SCALE.id]: { unsatisfied: [1, 2], satisfied: [4, 5] },
+  [THUMBS_SCALE.id]: { unsatisfied: [0], satisfied: [1] },
+  [NPS_SCALE.id]: { unsatisfied: [0, 1, 2, 3, 4, 5, 6], satisfied: [9, 10] }
+};
+
+// Mirrors the original rating → feedback → contact flow, one step each, so steps rather than visibility conditions gate it.
+// Unhappy respondents are asked what went wrong and whether we may contact them; happy ones whether we may quote them.
+// Every value here is plain JSON; text properties hold message keys, which are translated at render time.
+export const DEFAULT_FORM_SCHEMA: FormSchema = {
+  fields: [
+    {
+      id: 'feedback',
+      type: 'textarea',
+      label: 'fields.feedback.label',
+      placeholder: 'fields.feedback.placeholder',
+      required: true,
+      rows: 4,
+      validation: { minLength: 10 },
+      messages: {
+        required: 'fields.feedback.required',
+        minLength: 'fields.feedback.minLength'
+      },
+      hint: 'hints.provideFeedback'
+    },
+    {
+      id: 'issues',
+      type: 'checkboxGroup',
+      label: 'fields.issues.label',
+      options: [
+        { value: 'quality', label: 'fields.issues.quality' },
+        { value: 'support', label: 'fields.issues.support' },
+        { value: 'speed', label: 'fields.issues.speed' },
+        { value: 'price', label: 'fields.issues.price' },
+        { value: 'usability', label: 'fields.issues.usability' },
+        { value: 'other', label: 'fields.issues.other' }
+      ],
+      branches: ['unsatisfied']
+    },
+    {
+      id: 'name',
+      type: 'text',
+      label: 'fields.name.label',
+      placeholder: 'fields.name.placeholder',
+      required: true,
+      messages: { required: 'fields.name.required' },
+      personal: true,
+      hint: 'hints.contactInfo'
+    },
+    {
+      id: 'email',
+      type: 'email',
+      label: 'fields.email.label',
+      placeholder: 'fields.email.placeholder',
+      required: true,
+      validation: { blockDisposableEmail: true },
+      messages: {
+        required: 'fields.email.required'
+      },
+      hint: 'hints.contactInfo'
+    },
+    {
+      id: 'contactConsent',
+      type: 'checkbox',
+      label: 'fields.contactConsent.label',
+      branches: ['unsatisfied'],
+      // Nothing to contact without an address, e.g. in anonymous mode
+      visibleWhen: [{ field: 'email', filled: true }]
+    },
+    {
+      id: 'testimonialConsent',
+      type: 'checkbox',
+      label: 'fields.testimonialConsent.label',
+      branches: ['satisfied']
+    }
+  ],
+  steps: [
+    { id: 'rating', title: 'steps.rating', fields: ['rating'] },
+    { id: 'feedback', title: 'steps.feedback', fields: ['feedback', 'issues'] },
+    { id: 'contact', title: 'steps.contact', fields: ['name', 'email', 'contactConsent', 'testimonialConsent'] }
+  ],
+  branches: Object.entries(FOLLOW_UP_RATINGS).flatMap(([scale, ratings]) => [
+    { id: 'unsatisfied', scale, ratings: ratings.unsatisfied, overrides: UNSATISFIED_OVERRIDES },
+    { id: 'satisfied', scale, ratings: ratings.satisfied, overrides: SATISFIED_OVERRIDES }
+  ])
+};
@@ -0,0 +1,15 @@
+// Ids and option values of the built-in scales, in display order. Kept apart from ./ratingScales, which adds
+// labels and icons, so reports and the Node CLI can use them without loading the icon packages.
+export const EMOJI_SCALE_ID = 'emoji-3';
+export const CSAT_SCALE_ID = 'csat-5';
+export const NPS_SCALE_ID = 'nps-11';
+export const THUMBS_SCALE_ID = 'thumbs-2';
+export const STAR_SCALE_ID = 'stars-5';
+
+export const RATING_SCALE_VALUES: Record<string, number[]> = {
+  [EMOJI_SCALE_ID]: [1, 2, 3],
+  [CSAT_SCALE_ID]: [1, 2, 3, 4, 5],
+  [NPS_SCALE_ID]: Array.from({ length: 11 }, (_, value) => value),
+  [THUMBS_SCALE_ID]: [0, 1],
+  [STAR_SCALE_ID]: [1, 2, 3, 4, 5]
+};
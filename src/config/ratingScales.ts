@@ -0,0 +1,86 @@
+import {
+  faFaceAngry,
+  faFaceFrown,
+  faFaceMeh,
+  faFaceSmile,
+  faFaceGrinBeam,
+  faThumbsDown,
+  faThumbsUp,
+  faStar
+} from '@fortawesome/free-solid-svg-icons';
+import type { RatingOption, RatingScale } from '../types/ratingScale';
+import {
+  CSAT_SCALE_ID,
+  EMOJI_SCALE_ID,
+  NPS_SCALE_ID,
+  RATING_SCALE_VALUES,
+  STAR_SCALE_ID,
+  THUMBS_SCALE_ID
+} from './ratingScaleValues';
+
+// Pairs each value of the scale, in order, with its label, icon and tone
+const withValues = (id: string, details: Array<Omit<RatingOption, 'value'>>): RatingOption[] =>
+  RATING_SCALE_VALUES[id].map((value, index) => ({ value, ...details[index] }));
+
+export const EMOJI_SCALE: RatingScale = {
+  id: EMOJI_SCALE_ID,
+  options: withValues(EMOJI_SCALE_ID, [
+    { label: 'scales.emoji.unsatisfied', icon: faFaceFrown, iconSize: '45px', tone: 'negative' },
+    { label: 'scales.emoji.neutral', icon: faFaceMeh, iconSize: '45px', tone: 'neutral' },
+    { label: 'scales.emoji.satisfied', icon: faFaceGrinBeam, iconSize: '45px', tone: 'positive' }
+  ])
+};
+
+export const CSAT_SCALE: RatingScale = {
+  id: CSAT_SCALE_ID,
+  options: withValues(CSAT_SCALE_ID, [
+    { label: 'scales.csat.veryUnsatisfied', icon: faFaceAngry, iconSize: '36px', tone: 'negative' },
+    { label: 'scales.csat.unsatisfied', icon: faFaceFrown, iconSize: '36px', tone: 'poor' },
+    { label: 'scales.csat.neutral', icon: faFaceMeh, iconSize: '36px', tone: 'neutral' },
+    { label: 'scales.csat.satisfied', icon: faFaceSmile, iconSize: '36px', tone: 'good' },
+    { label: 'scales.csat.verySatisfied', icon: faFaceGrinBeam, iconSize: '36px', tone: 'positive' }
+  ])
+};
+
+// 0–6 detractors, 7–8 passives, 9–10 promoters
+const npsOption = (value: number): RatingOption => ({
+  value,
+  label: String(value),
+  tone: value <= 6 ? 'negative' : value <= 8 ? 'neutral' : 'positive'
+});
+
+export const NPS_SCALE: RatingScale = {
+  id: NPS_SCALE_ID,
+  options: RATING_SCALE_VALUES[NPS_SCALE_ID].map(npsOption),
+  minLabel: 'scales.nps.min',
+  maxLabel: 'scales.nps.max'
+};
+
+export const THUMBS_SCALE: RatingScale = {
+  id: THUMBS_SCALE_ID,
+  options: withValues(THUMBS_SCALE_ID, [
+    { label: 'scales.thumbs.down', icon: faThumbsDown, iconSize: '40px', tone: 'negative' },
+    { label: 'scales.thumbs.up', icon: faThumbsUp, iconSize: '40px', tone: 'positive' }
+  ])
+};
+
+const STAR_LABELS = ['terrible', 'poor', 'average', 'good', 'excellent'];
+
+export const STAR_SCALE: RatingScale = {
+  id: STAR_SCALE_ID,
+  cumulative: true,
+  options: withValues(STAR_SCALE_ID, STAR_LABELS.map((label) => ({
+    label: `scales.stars.${label}`,
+    icon: faStar,
+    iconSize: '32px',
+    tone: 'star'
+  })))
+};
+
+export const RATING_SCALES: Record<string, RatingScale> = {
+  [EMOJI_SCALE.id]: EMOJI_SCALE,
+  [CSAT_SCALE.id]: CSAT_SCALE,
+  [NPS_SCALE.id]: NPS_SCALE,
+  [THUMBS_SCALE.id]: THUMBS_SCALE,
+  [STAR_SCALE.id]: STAR_SCALE
+};
@@ -0,0 +1,5 @@
+// Every JSON file in ./surveys (none by default) is bundled and served at /s/<id> without a request for its
+// definition. Definitions are validated when loaded, like fetched ones.
+export const BUNDLED_SURVEYS: unknown[] = Object.values(
+  import.meta.glob('./surveys/*.json', { eager: true, import: 'default' })
+);
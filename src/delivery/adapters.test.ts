@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { FeedbackData } from '../types/feedback';
+import { formAdapter, slackAdapter, webhookAdapter } from './adapters';
+
+const data = {
+  submissionId: 'abc',
+  rating: 2,
+  ratingLabel: 'Neutral',
+  ratingScale: 'emoji-3',
+  feedback: 'Quick checkout\nSlow delivery',
+  name: 'Ada Lovelace',
+  email: '',
+  answers: { topics: ['price', 'speed'] },
+  attachments: [{ id: 'f1', fieldId: 'attachments', name: 'receipt.txt', type: 'text/plain', size: 2, data: btoa('hi') }],
+  sentiment: { score: 0, polarity: 0, label: 'neutral', positiveTerms: [], negativeTerms: [] },
+  sentimentMismatch: false,
+  locale: 'en',
+  timestamp: '2026-03-02T10:00:00.000Z'
+} as unknown as FeedbackData;
+
+describe('webhookAdapter', () => {
+  it('sends JSON, or a payload part and file parts when multipart', () => {
+    const request = webhookAdapter.encode(data);
+    expect(request.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(request.body as string)).toEqual(data);
+
+    const multipart = webhookAdapter.encode(data, { attachmentEncoding: 'multipart' });
+    const body = multipart.body as FormData;
+    const payload = JSON.parse(body.get('payload') as string);
+
+    expect('signedContent' in multipart && multipart.signedContent).toBe(body.get('payload'));
+    expect(payload.attachments).toEqual([expect.objectContaining({ id: 'f1', part: 'attachments[f1]' })]);
+    expect(payload.attachments[0]).not.toHaveProperty('data');
+    expect(body.get('attachments[f1]')).toMatchObject({ name: 'receipt.txt', type: 'text/plain', size: 2 });
+  });
+});
+
+describe('formAdapter', () => {
+  it('url-encodes nested values as bracketed keys', () => {
+    const params = new URLSearchParams(formAdapter.encode(data).body as string);
+
+    expect(params.get('feedback')).toBe('Quick checkout\nSlow delivery');
+    expect(params.get('sentiment[label]')).toBe('neutral');
+    expect(params.getAll('answers[topics][]')).toEqual(['price', 'speed']);
+    expect(params.get('attachments[][data]')).toBe(btoa('hi'));
+  });
+});
+
+describe('slackAdapter', () => {
+  it('posts a Slack message that lists the rating, quoted feedback and file names', async () => {
+    const payload = JSON.parse(new URLSearchParams(slackAdapter.encode(data).body as string).get('payload') as string);
+
+    expect(payload.text).toBe('New feedback: Neutral (2) from Ada Lovelace');
+    expect(payload.blocks[1].text.text).toBe('> Quick checkout\n> Slow delivery');
+    expect(JSON.stringify(payload.blocks.at(-1))).toContain('*Attachments:* receipt.txt');
+    expect(await slackAdapter.parseResponse(new Response('invalid_payload'))).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,150 @@
+import type { FeedbackData, WebhookResponse } from '../types/feedback';
+import type { FeedbackAttachment } from '../types/attachment';
+import { attachmentToBlob } from '../utils/attachments';
+import type { AdapterId, DeliveryAdapter, EncodedRequest } from './types';
+
+// Reads an optional { message, ticket } from a JSON reply for the thank-you screen; other bodies are ignored.
+// A numeric ticket is accepted and shown as text.
+const parseJSONResponse = async (response: Response): Promise<WebhookResponse> => {
+  const result: WebhookResponse = { success: true };
+  try {
+    const body = (await response.json()) as { message?: unknown; ticket?: unknown };
+    if (typeof body.message === 'string' && body.message.trim()) {
+      result.message = body.message;
+    }
+    if ((typeof body.ticket === 'string' && body.ticket.trim()) || typeof body.ticket === 'number') {
+      result.ticket = String(body.ticket);
+    }
+  } catch {
+    // Empty or non-JSON bodies are fine for a 2xx
+  }
+  return result;
+};
+
+// For multipart bodies: each attachment's content moves to its own file part, named in `part`
+const toMultipartData = (data: FeedbackData): { data: FeedbackData; files: FormData } => {
+  const files = new FormData();
+  const attachments = data.attachments.map(({ data: content = '', ...attachment }): FeedbackAttachment => {
+    const part = `attachments[${attachment.id}]`;
+    files.append(part, attachmentToBlob({ data: content, type: attachment.type }), attachment.name);
+    return { ...attachment, part };
+  });
+  return { data: { ...data, attachments }, files };
+};
+
+// Multipart requests put the JSON in a "payload" part, followed by the files; the signature covers the JSON
+export const webhookAdapter: DeliveryAdapter = {
+  id: 'webhook',
+  supportsHeaders: true,
+  encode: (data, { attachmentEncoding = 'base64' } = {}): EncodedRequest => {
+    if (attachmentEncoding === 'multipart') {
+      const multipart = toMultipartData(data);
+      const payload = JSON.stringify(multipart.data);
+      const body = new FormData();
+      body.append('payload', payload);
+      multipart.files.forEach((file, part) => body.append(part, file));
+      return { headers: {}, body, signedContent: payload };
+    }
+    return {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    };
+  },
+  parseResponse: parseJSONResponse
+};
+
+// Nested objects become bracketed keys (sentiment[score], answers[department]) as most form parsers expect
+const appendFormValue = (params: Pick<URLSearchParams, 'append'>, key: string, value: unknown): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => appendFormValue(params, `${key}[]`, item));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.entries(value).forEach(([child, childValue]) => appendFormValue(params, `${key}[${child}]`, childValue));
+  } else if (value !== undefined && value !== null) {
+    params.append(key, String(value));
+  }
+};
+
+const toFormParams = (data: FeedbackData): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(data).forEach(([key, value]) => appendFormValue(params, key, value));
+  return params;
+};
+
+// Multipart requests carry the same fields followed by the files; the signature covers the fields, url-encoded
+export const formAdapter: DeliveryAdapter = {
+  id: 'form',
+  supportsHeaders: true,
+  encode: (data, { attachmentEncoding = 'base64' } = {}): EncodedRequest => {
+    if (attachmentEncoding === 'multipart') {
+      const multipart = toMultipartData(data);
+      const params = toFormParams(multipart.data);
+      const body = new FormData();
+      params.forEach((value, key) => body.append(key, value));
+      multipart.files.forEach((file, part) => body.append(part, file));
+      return { headers: {}, body, signedContent: params.toString() };
+    }
+    return {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: toFormParams(data).toString()
+    };
+  },
+  parseResponse: parseJSONResponse
+};
+
+const formatSlackMessage = (data: FeedbackData) => {
+  const contact = [data.name, data.email].filter(Boolean).join(' · ') || 'Anonymous';
+  const sentiment = `${data.sentiment.label} (${data.sentiment.polarity})${data.sentimentMismatch ? ' ⚠️ contradicts rating' : ''}`;
+  const quoted = data.feedback ? data.feedback.split('\n').map((line) => `> ${line}`).join('\n') : '_No comment_';
+  const answers = Object.entries(data.answers)
+    .map(([id, value]) => `*${id}:* ${Array.isArray(value) ? value.join(', ') || '—' : String(value)}`)
+    .join('\n');
+  // Incoming webhooks cannot carry files, so only their names are listed
+  const attachments = data.attachments.map((attachment) => attachment.name).join(', ');
+
+  return {
+    text: `New feedback: ${data.ratingLabel} (${data.rating}) from ${contact}`,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*New feedback: ${data.ratingLabel}* (${data.ratingScale} · ${data.rating})` }
+      },
+      { type: 'section', text: { type: 'mrkdwn', text: quoted } },
+      ...(answers ? [{ type: 'section', text: { type: 'mrkdwn', text: answers } }] : []),
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: `*From:* ${contact}` },
+          { type: 'mrkdwn', text: `*Sentiment:* ${sentiment}` },
+          { type: 'mrkdwn', text: `*Locale:* ${data.locale} · ${data.timestamp}` },
+          ...(attachments ? [{ type: 'mrkdwn', text: `*Attachments:* ${attachments}` }] : [])
+        ]
+      }
+    ]
+  };
+};
+
+// Slack incoming webhooks send no CORS headers: post as a simple form request and accept the opaque reply
+export const slackAdapter: DeliveryAdapter = {
+  id: 'slack',
+  mode: 'no-cors',
+  supportsHeaders: false,
+  encode: (data) => ({
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ payload: JSON.stringify(formatSlackMessage(data)) }).toString()
+  }),
+  parseResponse: async (response) => {
+    if (response.type === 'opaque') {
+      return { success: true };
+    }
+    const text = await response.text();
+    return text === 'ok'
+      ? { success: true }
+      : { success: false, message: `Slack error: ${text}`, retryable: false };
+  }
+};
+
+export const DELIVERY_ADAPTERS: Record<AdapterId, DeliveryAdapter> = {
+  webhook: webhookAdapter,
+  slack: slackAdapter,
+  form: formAdapter
+};
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FeedbackData } from '../types/feedback';
+import { deliverFeedback } from './deliver';
+import { webhookAdapter } from './adapters';
+import { verifySignature } from './signing';
+import type { AdapterId, DeliveryAdapter } from './types';
+
+const WEBHOOK_URL = 'https://example.test/webhook';
+const data = { submissionId: 'abc', attachments: [] } as unknown as FeedbackData;
+
+describe('deliverFeedback', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses unknown adapter ids without sending', async () => {
+    const result = await deliverFeedback({ url: WEBHOOK_URL, adapter: 'teams' as AdapterId }, data);
+
+    expect(result).toEqual({ success: false, message: 'errors.webhookConfiguration', retryable: false });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('resolves with a non-retryable failure when a custom adapter cannot encode', async () => {
+    const adapter: DeliveryAdapter = {
+      ...webhookAdapter,
+      encode: () => {
+        throw new Error('Cannot encode');
+      }
+    };
+
+    expect(await deliverFeedback({ url: WEBHOOK_URL, adapter }, data)).toEqual({
+      success: false,
+      message: 'Cannot encode',
+      retryable: false
+    });
+  });
+
+  it('does not retry a 2xx whose reply cannot be read', async () => {
+    const adapter: DeliveryAdapter = {
+      ...webhookAdapter,
+      parseResponse: async () => {
+        throw new Error('Unexpected reply');
+      }
+    };
+
+    expect(await deliverFeedback({ url: WEBHOOK_URL, adapter }, data)).toMatchObject({ success: false, retryable: false });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries network failures and server errors', async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    expect(await deliverFeedback({ url: WEBHOOK_URL }, data)).toMatchObject({ success: false, retryable: true });
+
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 503 }));
+    expect(await deliverFeedback({ url: WEBHOOK_URL }, data)).toMatchObject({ success: false, retryable: true });
+  });
+
+  it('signs the JSON part of multipart requests', async () => {
+    const multipartData = { ...data, attachments: [{ id: 'f1', name: 'a.txt', type: 'text/plain', size: 2, data: btoa('hi') }] };
+    await deliverFeedback(
+      { url: WEBHOOK_URL, signing: { getSecret: () => 'secret' }, attachmentEncoding: 'multipart' },
+      multipartData as unknown as FeedbackData
+    );
+
+    const init = vi.mocked(fetch).mock.calls[0][1];
+    const headers = init?.headers as Record<string, string>;
+    const payload = (init?.body as FormData).get('payload') as string;
+    expect(headers['Idempotency-Key']).toBe('abc');
+    expect(await verifySignature('secret', payload, headers['X-Signature'], headers['X-Signature-Timestamp'])).toBe(true);
+  });
+
+  it('gives up on an endpoint that does not answer in time and retries later', async () => {
+    // Like the mock webhook's "timeout" mode: the request stays open until it is aborted
+    vi.mocked(fetch).mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    }));
+
+    expect(await deliverFeedback({ url: WEBHOOK_URL, timeoutMs: 20 }, data)).toEqual({
+      success: false,
+      message: 'errors.timeout',
+      retryable: true
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import type { FeedbackData, WebhookResponse } from '../types/feedback';
+import { DELIVERY_ADAPTERS } from './adapters';
+import { createSignatureHeaders } from './signing';
+import type { DeliveryAdapter, DeliveryConfig, EncodedRequest } from './types';
+
+// Statuses worth retrying later; any other non-2xx means the endpoint rejected the payload
+const RETRYABLE_STATUSES = [408, 425, 429];
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+const isRetryableStatus = (status: number): boolean =>
+  status >= 500 || RETRYABLE_STATUSES.includes(status);
+
+// Undefined for an id that names no built-in adapter, e.g. a typo in a fetched survey definition
+export const resolveAdapter = (adapter: DeliveryConfig['adapter'] = 'webhook'): DeliveryAdapter | undefined => {
+  if (typeof adapter !== 'string') {
+    return adapter;
+  }
+  return Object.prototype.hasOwnProperty.call(DELIVERY_ADAPTERS, adapter) ? DELIVERY_ADAPTERS[adapter] : undefined;
+};
+
+// Where a submission is sent; queued entries are only retried by a form with the same target
+export const getDeliveryTarget = ({ url, adapter = 'webhook' }: Pick<DeliveryConfig, 'url' | 'adapter'>): string =>
+  `${typeof adapter === 'string' ? adapter : adapter.id} ${url}`;
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Failed to submit feedback';
+
+// Webhook submission function
+export const deliverFeedback = async (config: DeliveryConfig, data: FeedbackData): Promise<WebhookResponse> => {
+  if (!config.url) {
+    return {
+      success: false,
+      message: 'errors.webhookConfiguration',
+      retryable: false
+    };
+  }
+
+  const adapter = resolveAdapter(config.adapter);
+  if (!adapter) {
+    console.error(`Unknown delivery adapter "${String(config.adapter)}"`);
+    return {
+      success: false,
+      message: 'errors.webhookConfiguration',
+      retryable: false
+    };
+  }
+
+  let request: EncodedRequest;
+  try {
+    request = adapter.encode(data, { attachmentEncoding: config.attachmentEncoding });
+  } catch (error) {
+    // Encoding is deterministic, so a retry would fail the same way
+    console.error(`The "${adapter.id}" adapter could not encode the submission:`, error);
+    return {
+      success: false,
+      message: describeError(error),
+      retryable: false
+    };
+  }
+
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let response: Response;
+  try {
+    const { headers, body } = request;
+
+    if (adapter.supportsHeaders) {
+      // Lets the receiver drop replays of a submission it has already stored
+      headers['Idempotency-Key'] = data.submissionId;
+
+      if (config.signing) {
+        // Signed on every attempt, so retried payloads carry a fresh timestamp
+        const content = 'signedContent' in request ? request.signedContent : request.body;
+        Object.assign(headers, await createSignatureHeaders(config.signing, content));
+      }
+    }
+
+    response = await fetch(config.url, {
+      method: 'POST',
+      mode: adapter.mode,
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error) {
+    // fetch only rejects on network failures (offline, DNS, CORS) and timeouts; a secret provider may fail the same way
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    console.error(timedOut ? `Webhook did not respond within ${timeoutMs} ms` : 'Webhook submission failed:', error);
+    return {
+      success: false,
+      message: timedOut ? 'errors.timeout' : describeError(error),
+      retryable: true
+    };
+  }
+
+  if (response.type !== 'opaque' && !response.ok) {
+    return {
+      success: false,
+      message: `Webhook error: ${response.status} ${response.statusText}`,
+      retryable: isRetryableStatus(response.status)
+    };
+  }
+
+  try {
+    return await adapter.parseResponse(response);
+  } catch (error) {
+    // The endpoint already accepted the request; sending it again would store it twice
+    console.error('Unable to read the webhook response:', error);
+    return {
+      success: false,
+      message: describeError(error),
+      retryable: false
+    };
+  }
+};
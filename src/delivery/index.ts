@@ -0,0 +1,4 @@
+export { deliverFeedback, getDeliveryTarget, resolveAdapter } from './deliver';
+export { webhookAdapter, formAdapter, slackAdapter, DELIVERY_ADAPTERS } from './adapters';
+export { computeSignature, createSignatureHeaders, verifySignature } from './signing';
+export type { AdapterId, DeliveryAdapter, DeliveryConfig, EncodedRequest, EncodeOptions, SecretProvider, SigningOptions } from './types';
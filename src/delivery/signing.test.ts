@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { computeSignature, createSignatureHeaders, verifySignature } from './signing';
+
+const SECRET = 'test-secret';
+const BODY = '{"submissionId":"abc","rating":5}';
+const NOW = Date.UTC(2026, 2, 2, 10, 0, 0);
+
+describe('computeSignature', () => {
+  it('signs the timestamp and body with HMAC-SHA256', async () => {
+    const signature = await computeSignature(SECRET, 1772445600, BODY);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(await computeSignature(SECRET, 1772445600, BODY)).toBe(signature);
+    expect(await computeSignature(SECRET, 1772445601, BODY)).not.toBe(signature);
+  });
+});
+
+describe('createSignatureHeaders', () => {
+  it('uses the default header names unless others are given', async () => {
+    const headers = await createSignatureHeaders({ getSecret: () => SECRET }, BODY, NOW);
+
+    expect(headers).toEqual({
+      'X-Signature': await computeSignature(SECRET, NOW / 1000, BODY),
+      'X-Signature-Timestamp': String(NOW / 1000)
+    });
+    expect(Object.keys(await createSignatureHeaders(
+      { getSecret: async () => SECRET, signatureHeader: 'X-Hub-Signature-256', timestampHeader: 'X-Hub-Timestamp' },
+      BODY,
+      NOW
+    ))).toEqual(['X-Hub-Signature-256', 'X-Hub-Timestamp']);
+  });
+});
+
+describe('verifySignature', () => {
+  const signed = () => createSignatureHeaders({ getSecret: () => SECRET }, BODY, NOW);
+
+  it('accepts a signature made with the same secret and body', async () => {
+    const headers = await signed();
+
+    expect(await verifySignature(SECRET, BODY, headers['X-Signature'], headers['X-Signature-Timestamp'], { now: NOW }))
+      .toBe(true);
+  });
+
+  it('rejects a tampered body, a wrong secret and a missing signature', async () => {
+    const headers = await signed();
+    const timestamp = headers['X-Signature-Timestamp'];
+
+    expect(await verifySignature(SECRET, BODY.replace('5', '1'), headers['X-Signature'], timestamp, { now: NOW }))
+      .toBe(false);
+    expect(await verifySignature('other-secret', BODY, headers['X-Signature'], timestamp, { now: NOW })).toBe(false);
+    expect(await verifySignature(SECRET, BODY, null, timestamp, { now: NOW })).toBe(false);
+    expect(await verifySignature(SECRET, BODY, headers['X-Signature'], 'yesterday', { now: NOW })).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance', async () => {
+    const headers = await signed();
+    const verifyAt = (now: number, toleranceSeconds?: number) =>
+      verifySignature(SECRET, BODY, headers['X-Signature'], headers['X-Signature-Timestamp'], { now, toleranceSeconds });
+
+    expect(await verifyAt(NOW + 300_000)).toBe(true);
+    expect(await verifyAt(NOW + 301_000)).toBe(false);
+    expect(await verifyAt(NOW - 301_000)).toBe(false);
+    expect(await verifyAt(NOW + 60_000, 30)).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import type { SigningOptions } from './types';
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Signature';
+export const DEFAULT_TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+// Receivers should refuse signatures older than this to make captured requests useless for replays
+export const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const hmacSha256 = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+};
+
+// The timestamp is part of the signed message, so it cannot be swapped without invalidating the signature
+export const computeSignature = async (secret: string, timestamp: number, body: string): Promise<string> =>
+  `sha256=${await hmacSha256(secret, `${timestamp}.${body}`)}`;
+
+export const createSignatureHeaders = async (
+  options: SigningOptions,
+  body: string,
+  now: number = Date.now()
+): Promise<Record<string, string>> => {
+  const timestamp = Math.floor(now / 1000);
+  const secret = await options.getSecret();
+  return {
+    [options.signatureHeader ?? DEFAULT_SIGNATURE_HEADER]: await computeSignature(secret, timestamp, body),
+    [options.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER]: String(timestamp)
+  };
+};
+
+const constantTimeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Receiver-side check; runs in browsers and in Node 20+, which both expose crypto.subtle
+export const verifySignature = async (
+  secret: string,
+  body: string,
+  signature: string | null | undefined,
+  timestamp: string | null | undefined,
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Date.now() } = {}
+): Promise<boolean> => {
+  const sentAt = Number(timestamp);
+  if (!signature || !Number.isInteger(sentAt)) {
+    return false;
+  }
+  if (Math.abs(Math.floor(now / 1000) - sentAt) > toleranceSeconds) {
+    return false;
+  }
+  return constantTimeEqual(signature, await computeSignature(secret, sentAt, body));
+};
@@ -0,0 +1,44 @@
+import type { FeedbackData, WebhookResponse } from '../types/feedback';
+import type { AttachmentEncoding } from '../types/attachment';
+
+export type SecretProvider = () => string | Promise<string>;
+
+export interface SigningOptions {
+  // Called for every request so short-lived secrets can be fetched or rotated by the host
+  getSecret: SecretProvider;
+  signatureHeader?: string;
+  timestampHeader?: string;
+}
+
+// Multipart bodies carry no Content-Type header: fetch adds it with the boundary
+export type EncodedRequest =
+  | { headers: Record<string, string>; body: string }
+  // A multipart body cannot be signed byte for byte; the signature covers `signedContent` instead
+  | { headers: Record<string, string>; body: FormData; signedContent: string };
+
+export interface EncodeOptions {
+  // "base64" keeps file contents inside the payload; "multipart" sends them as file parts. Defaults to base64.
+  attachmentEncoding?: AttachmentEncoding;
+}
+
+export interface DeliveryAdapter {
+  id: string;
+  encode: (data: FeedbackData, options?: EncodeOptions) => EncodedRequest;
+  // Interprets the endpoint's reply; only called for responses that are not already known failures
+  parseResponse: (response: Response) => Promise<WebhookResponse>;
+  // "no-cors" for endpoints that send no CORS headers; custom headers (signing, idempotency) are then dropped
+  mode?: RequestMode;
+  // Whether the endpoint accepts the signature and idempotency headers
+  supportsHeaders: boolean;
+}
+
+export type AdapterId = 'webhook' | 'slack' | 'form';
+
+export interface DeliveryConfig {
+  url: string;
+  adapter?: DeliveryAdapter | AdapterId;
+  signing?: SigningOptions;
+  attachmentEncoding?: AttachmentEncoding;
+  // Milliseconds to wait for the endpoint before giving up with a retryable failure. Defaults to 15 seconds.
+  timeoutMs?: number;
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createAnalyticsTracker, type AnalyticsEvent, type AnalyticsEventPayloads, type AnalyticsEventType, type AnalyticsOptions } from '../analytics';
+import { createSubmissionId } from '../utils/submissionQueue';
+
+interface AnalyticsScope {
+  ratingScale: string;
+  locale: string;
+  stepId: string;
+  stepIndex: number;
+  stepCount: number;
+}
+
+interface View {
+  id: string;
+  startedAt: number;
+}
+
+const createView = (): View => ({ id: createSubmissionId(), startedAt: Date.now() });
+
+// Emits form_viewed and step_viewed itself and flushes when the page is hidden or the form unmounts.
+// A new `options` object starts a new tracker, so hosts should pass a stable one.
+export const useAnalytics = (options: AnalyticsOptions | undefined, scope: AnalyticsScope) => {
+  const tracker = useMemo(() => (options ? createAnalyticsTracker(options) : null), [options]);
+  const [view, setView] = useState<View>(createView);
+
+  // Read through a ref so track() stays stable while the step and view change
+  const latestRef = useRef({ tracker, view, scope });
+  useEffect(() => {
+    latestRef.current = { tracker, view, scope };
+  });
+
+  const track = useCallback(<T extends AnalyticsEventType>(type: T, payload: AnalyticsEventPayloads[T]): void => {
+    const { tracker: current, view: currentView, scope: currentScope } = latestRef.current;
+    const now = Date.now();
+    current?.track({
+      type,
+      viewId: currentView.id,
+      timestamp: new Date(now).toISOString(),
+      elapsedMs: now - currentView.startedAt,
+      stepId: currentScope.stepId,
+      ...payload
+    } as AnalyticsEvent);
+  }, []);
+
+  // Keyed on what was last sent, so StrictMode's repeated effects do not send duplicates
+  const sentRef = useRef({ view: '', step: '' });
+  useEffect(() => {
+    if (!tracker) {
+      return;
+    }
+    const { ratingScale, locale, stepId, stepIndex, stepCount } = latestRef.current.scope;
+    if (sentRef.current.view !== view.id) {
+      sentRef.current.view = view.id;
+      track('form_viewed', { ratingScale, locale, stepCount });
+    }
+    const stepKey = `${view.id}:${stepId}`;
+    if (sentRef.current.step !== stepKey) {
+      sentRef.current.step = stepKey;
+      track('step_viewed', { stepIndex, stepCount });
+    }
+  }, [tracker, track, view.id, scope.stepId]);
+
+  useEffect(() => {
+    if (!tracker) {
+      return;
+    }
+    const handlePageHide = () => tracker.flush(true);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        tracker.flush(true);
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      tracker.flush();
+    };
+  }, [tracker]);
+
+  // Starts a new view, e.g. after "Submit another"
+  const restart = useCallback(() => setView(createView()), []);
+
+  return { track, restart };
+};
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FormErrors } from '../types/feedback';
+import type { FieldValue, FormField } from '../types/formSchema';
+import type { Translate } from '../i18n';
+import type { FieldValues } from '../utils/formSchema';
+import type { ValidationEngine } from '../validation';
+
+interface CheckedValue {
+  value: FieldValue;
+  error?: string;
+}
+
+const sameValue = (a: FieldValue, b: FieldValue): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Runs the async validators of `fields` (those that already pass their sync rules) once typing pauses.
+// A result stands until the field's value changes; a newer value aborts the check still running for the old one.
+export const useAsyncValidation = (
+  engine: ValidationEngine,
+  fields: FormField[],
+  values: FieldValues,
+  rating: number | null,
+  t: Translate
+) => {
+  const [checked, setChecked] = useState<Record<string, CheckedValue>>({});
+  const targets = fields.filter((field) => engine.hasAsyncValidators(field));
+
+  const errors: FormErrors = {};
+  const pending: string[] = [];
+  for (const field of targets) {
+    const result = checked[field.id];
+    if (!result || !sameValue(result.value, values[field.id])) {
+      pending.push(field.id);
+    } else if (result.error) {
+      errors[field.id] = result.error;
+    }
+  }
+
+  // Read through a ref so the latest engine, values and translator are used without restarting the debounce
+  const latestRef = useRef({ engine, targets, values, rating, t, checked });
+  useEffect(() => {
+    latestRef.current = { engine, targets, values, rating, t, checked };
+  });
+
+  const check = useCallback(async (fieldIds: string[], signal: AbortSignal): Promise<FormErrors> => {
+    const { engine: current, targets: currentTargets, values: currentValues, rating: currentRating, t: currentT } =
+      latestRef.current;
+    const results = await Promise.all(
+      currentTargets
+        .filter((field) => fieldIds.includes(field.id))
+        .map(async (field) => {
+          const value = currentValues[field.id];
+          const error = await current.validateFieldAsync(field, currentValues, currentRating, currentT, signal);
+          return [field.id, { value, error }] as const;
+        })
+    );
+    if (!signal.aborted) {
+      setChecked((previous) => ({ ...previous, ...Object.fromEntries(results) }));
+    }
+    return Object.fromEntries(results.filter(([, result]) => result.error).map(([id, result]) => [id, result.error]));
+  }, []);
+
+  // Changes whenever a pending field's value does, which restarts the debounce
+  const pendingKey = JSON.stringify(pending.map((id) => [id, values[id]]));
+  useEffect(() => {
+    const fieldIds = (JSON.parse(pendingKey) as Array<[string, FieldValue]>).map(([id]) => id);
+    if (fieldIds.length === 0) {
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => void check(fieldIds, controller.signal), latestRef.current.engine.debounceMs);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [pendingKey, check]);
+
+  // Skips the debounce for submit: resolves with every async error, using remembered results where possible
+  const flush = useCallback(async (): Promise<FormErrors> => {
+    const { targets: currentTargets, values: currentValues, checked: currentChecked } = latestRef.current;
+    const known: FormErrors = {};
+    const unchecked: string[] = [];
+    for (const field of currentTargets) {
+      const result = currentChecked[field.id];
+      if (result && sameValue(result.value, currentValues[field.id])) {
+        if (result.error) {
+          known[field.id] = result.error;
+        }
+      } else {
+        unchecked.push(field.id);
+      }
+    }
+    return { ...known, ...(await check(unchecked, new AbortController().signal)) };
+  }, [check]);
+
+  return { errors, pending, flush };
+};
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FormSchema } from '../types/formSchema';
+import type { FieldValues } from '../utils/formSchema';
+import {
+  clearDraft,
+  DEFAULT_DRAFT_TTL_MS,
+  isDraftEmpty,
+  loadDraft,
+  saveDraft,
+  type DraftOptions,
+  type FormDraft
+} from '../utils/draft';
+
+const SAVE_DELAY_MS = 500;
+
+interface DraftState {
+  schema: FormSchema;
+  ratingScale: string;
+  rating: number | null;
+  values: FieldValues;
+  touched: Record<string, boolean>;
+}
+
+// Autosaves the in-progress response and offers a stored one back until the respondent resumes or discards it.
+// Saving is paused while `paused` is true (e.g. after a successful submit) and while a stored draft awaits a decision.
+export const useDraft = (state: DraftState, options: DraftOptions | false | undefined, paused: boolean) => {
+  const enabled = options !== false;
+  const { key = state.ratingScale, ttlMs = DEFAULT_DRAFT_TTL_MS, excludePersonalData = false } = options || {};
+
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(() => (enabled ? loadDraft(key, ttlMs) : null));
+  const isSaving = enabled && !paused && pendingDraft === null;
+
+  const persistRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    persistRef.current = () => {
+      if (!isSaving) {
+        return;
+      }
+      const { schema, ratingScale, rating, values, touched } = state;
+      if (isDraftEmpty(schema, rating, values)) {
+        clearDraft(key);
+      } else {
+        saveDraft(key, schema, { ratingScale, rating, values, touched }, { excludePersonalData });
+      }
+    };
+  });
+
+  const { rating, values, touched } = state;
+  useEffect(() => {
+    if (!isSaving) {
+      return;
+    }
+    const timer = setTimeout(() => persistRef.current(), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isSaving, rating, values, touched]);
+
+  // The debounce may not get to run when the tab is closed or navigated away
+  useEffect(() => {
+    const handlePageHide = () => persistRef.current();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  const resumeDraft = useCallback((): FormDraft | null => {
+    setPendingDraft(null);
+    return pendingDraft;
+  }, [pendingDraft]);
+
+  // Used for "start over" as well as after submit and reset
+  const clearStoredDraft = useCallback((): void => {
+    // Keep an already scheduled save from writing the draft back before the next render
+    persistRef.current = () => {};
+    clearDraft(key);
+    setPendingDraft(null);
+  }, [key]);
+
+  return { pendingDraft, resumeDraft, clearDraft: clearStoredDraft };
+};
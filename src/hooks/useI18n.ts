@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import { createTranslator, detectLocale, getTextDirection } from '../i18n';
+
+// Resolves the locale from the prop or navigator.languages and returns a translator for it
+export const useI18n = (preferredLocale?: string) =>
+  useMemo(() => {
+    const locale = detectLocale(preferredLocale);
+    return { locale, dir: getTextDirection(locale), t: createTranslator(locale) };
+  }, [preferredLocale]);
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  return () => window.removeEventListener('popstate', onChange);
+};
+
+// The current pathname, updated on back/forward navigation; links between surveys are ordinary page loads
+export const useLocationPath = (): string =>
+  useSyncExternalStore(subscribe, () => window.location.pathname, () => '/');
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { FeedbackData } from '../types/feedback';
+import { enqueueSubmission, flushSubmissionQueue, type SubmissionSender } from '../utils/submissionQueue';
+
+// Retries queued submissions on load, when the browser comes back online, and whenever an entry's backoff expires.
+// `target` identifies where `send` delivers, so each form only retries the entries it queued for that target.
+export const useSubmissionQueue = (send: SubmissionSender, target: string) => {
+  const flushRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const flush = async () => {
+      clearTimeout(timer);
+      const nextAttemptAt = await flushSubmissionQueue(send, target);
+      if (!cancelled && nextAttemptAt !== null) {
+        timer = setTimeout(flush, Math.max(0, nextAttemptAt - Date.now()));
+      }
+    };
+
+    const handleOnline = () => { void flush(); };
+    flushRef.current = handleOnline;
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [send, target]);
+
+  // Returns false when the submission could not be saved for a retry
+  return useCallback((data: FeedbackData, lastError?: string): boolean => {
+    const stored = enqueueSubmission(data, target, lastError);
+    if (stored) {
+      flushRef.current();
+    }
+    return stored;
+  }, [target]);
+};
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchResponseCount,
+  getSurveyClosedReason,
+  loadSurveyDefinition,
+  type SurveyClosedReason,
+  type SurveyDefinition
+} from '../utils/survey';
+
+export type SurveyState =
+  | { status: 'loading' }
+  | { status: 'not-found' }
+  | { status: 'error' }
+  | { status: 'open'; definition: SurveyDefinition }
+  | { status: 'closed'; definition: SurveyDefinition; reason: SurveyClosedReason };
+
+// Loads the definition of `surveyId` and decides whether it still takes responses. Render with a `key` per
+// survey id: the state starts at "loading" only once.
+export const useSurvey = (surveyId: string): SurveyState => {
+  const [state, setState] = useState<SurveyState>({ status: 'loading' });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const load = async (): Promise<SurveyState> => {
+      const definition = await loadSurveyDefinition(surveyId, { signal });
+      if (!definition) {
+        return { status: 'not-found' };
+      }
+      const { closing } = definition;
+      // The count is only worth a request when nothing else has closed the survey already
+      const responseCount = closing?.maxResponses !== undefined && closing.responseCountUrl && !getSurveyClosedReason(closing)
+        ? await fetchResponseCount(closing.responseCountUrl, signal)
+        : null;
+      const reason = getSurveyClosedReason(closing, { responseCount });
+      return reason ? { status: 'closed', definition, reason } : { status: 'open', definition };
+    };
+
+    load()
+      .then((next) => {
+        if (!signal.aborted) {
+          setState(next);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!signal.aborted) {
+          console.error('Survey could not be loaded:', error);
+          setState({ status: 'error' });
+        }
+      });
+
+    return () => controller.abort();
+  }, [surveyId]);
+
+  return state;
+};
@@ -0,0 +1,54 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { getThemeStyle, isThemeMode, resolveTheme, type BrandTheme, type ThemeMode, type ThemeName } from '../theme';
+import { readJSON, writeJSON } from '../utils/storage';
+
+const THEME_STORAGE_KEY = 'sentiment-form:theme';
+
+// Every form and widget on the page shares the stored preference, so toggling one updates the others
+const preferenceListeners = new Set<() => void>();
+
+const readPreference = (): ThemeMode | null => {
+  const stored = readJSON<unknown>(THEME_STORAGE_KEY, null);
+  return isThemeMode(stored) ? stored : null;
+};
+
+const subscribePreference = (onChange: () => void) => {
+  preferenceListeners.add(onChange);
+  // Other tabs only report through the storage event
+  window.addEventListener('storage', onChange);
+  return () => {
+    preferenceListeners.delete(onChange);
+    window.removeEventListener('storage', onChange);
+  };
+};
+
+const useMediaQuery = (query: string): boolean => {
+  const subscribe = useCallback((onChange: () => void) => {
+    const mediaQuery = window.matchMedia(query);
+    mediaQuery.addEventListener('change', onChange);
+    return () => mediaQuery.removeEventListener('change', onChange);
+  }, [query]);
+  return useSyncExternalStore(subscribe, () => window.matchMedia(query).matches, () => false);
+};
+
+// Resolves the theme from the respondent's stored choice, falling back to the host's `defaultMode`
+export const useTheme = (defaultMode: ThemeMode, brand?: BrandTheme) => {
+  const preference = useSyncExternalStore(subscribePreference, readPreference, () => null);
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+  const prefersContrast = useMediaQuery('(prefers-contrast: more)');
+
+  const mode = preference ?? defaultMode;
+  const name: ThemeName = mode !== 'system'
+    ? mode
+    : prefersContrast ? 'high-contrast' : prefersDark ? 'dark' : 'light';
+
+  const theme = useMemo(() => resolveTheme(name, brand), [name, brand]);
+  const style = useMemo(() => getThemeStyle(theme), [theme]);
+
+  const setMode = useCallback((next: ThemeMode): void => {
+    writeJSON(THEME_STORAGE_KEY, next);
+    preferenceListeners.forEach((listener) => listener());
+  }, []);
+
+  return { mode, name, theme, style, setMode };
+};
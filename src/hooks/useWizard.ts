@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import type { FormStep } from '../types/formSchema';
+
+export type StepDirection = 'forward' | 'backward';
+
+interface WizardPosition {
+  id: string;
+  index: number;
+  direction: StepDirection;
+}
+
+// Tracks the current step by id so it survives steps appearing or disappearing around it.
+// Moving forward, by Next or by jumping ahead in the progress bar, requires every earlier step to be valid.
+export const useWizard = (steps: FormStep[], isStepValid: (step: FormStep) => boolean) => {
+  const [position, setPosition] = useState<WizardPosition>({ id: steps[0].id, index: 0, direction: 'forward' });
+
+  const found = steps.findIndex((step) => step.id === position.id);
+  // The current step was hidden by a branch: stay at the same place in the sequence
+  const currentIndex = found === -1 ? Math.min(position.index, steps.length - 1) : found;
+
+  const canReach = (index: number): boolean =>
+    index >= 0 &&
+    index < steps.length &&
+    (index <= currentIndex || steps.slice(0, index).every(isStepValid));
+
+  const goTo = (index: number): boolean => {
+    if (index === currentIndex || !canReach(index)) {
+      return false;
+    }
+    setPosition({ id: steps[index].id, index, direction: index > currentIndex ? 'forward' : 'backward' });
+    return true;
+  };
+
+  return {
+    currentStep: steps[currentIndex],
+    currentIndex,
+    direction: position.direction,
+    isFirst: currentIndex === 0,
+    isLast: currentIndex === steps.length - 1,
+    canReach,
+    goTo,
+    next: () => goTo(currentIndex + 1),
+    back: () => goTo(currentIndex - 1),
+    reset: () => setPosition({ id: steps[0].id, index: 0, direction: 'backward' })
+  };
+};
@@ -0,0 +1,68 @@
+import en from './locales/en';
+import es from './locales/es';
+import ar from './locales/ar';
+import he from './locales/he';
+
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type MessageCatalog = Record<string, string | PluralForms>;
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: string, params?: TranslationParams) => string;
+export type TextDirection = 'ltr' | 'rtl';
+
+export const DEFAULT_LOCALE = 'en';
+
+const CATALOGS: Record<string, MessageCatalog> = { en, es, ar, he };
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS);
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+const baseLanguage = (locale: string): string => locale.toLowerCase().split(/[-_]/)[0];
+
+// Picks the first requested locale we have a catalog for, matching "es-MX" to "es"
+export const resolveLocale = (requested: readonly string[]): string => {
+  for (const locale of requested) {
+    const language = baseLanguage(locale);
+    if (CATALOGS[language]) {
+      return language;
+    }
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const detectLocale = (preferred?: string): string => {
+  if (preferred) {
+    return resolveLocale([preferred]);
+  }
+  if (typeof navigator === 'undefined') {
+    return DEFAULT_LOCALE;
+  }
+  return resolveLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
+};
+
+export const getTextDirection = (locale: string): TextDirection =>
+  RTL_LANGUAGES.includes(baseLanguage(locale)) ? 'rtl' : 'ltr';
+
+const interpolate = (message: string, params: TranslationParams): string =>
+  message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+
+// Keys missing from every catalog are returned as-is, so schemas may use literal text instead of keys
+export const createTranslator = (locale: string): Translate => {
+  const catalog = CATALOGS[locale] ?? {};
+  const fallback = CATALOGS[DEFAULT_LOCALE];
+  const pluralRules = new Intl.PluralRules(locale);
+
+  return (key, params = {}) => {
+    const entry = catalog[key] ?? fallback[key] ?? key;
+
+    if (typeof entry === 'string') {
+      return interpolate(entry, params);
+    }
+
+    const count = typeof params.count === 'number' ? params.count : 0;
+    const form = entry[pluralRules.select(count)] ?? entry.other;
+    return interpolate(form, params);
+  };
+};
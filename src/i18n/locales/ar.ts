@@ -0,0 +1,180 @@
+import type { MessageCatalog } from '..';
+
+const ar: MessageCatalog = {
+  'form.title': 'كيف كانت تجربتك؟',
+  'form.subtitle': 'يرجى تقييم رضاك العام',
+  'form.submit': 'إرسال الملاحظات',
+  'form.submitting': 'جارٍ الإرسال...',
+
+  'steps.rating': 'تقييمك',
+  'steps.feedback': 'ملاحظاتك',
+  'steps.contact': 'بيانات التواصل',
+
+  'wizard.progress': 'التقدم',
+  'wizard.stepOf': 'الخطوة {current} من {total}',
+  'wizard.stepLabel': 'الخطوة {current} من {total}: {title}',
+  'wizard.completed': 'مكتملة',
+  'wizard.next': 'التالي',
+  'wizard.back': 'رجوع',
+
+  'hints.selectRating': '👆 يرجى اختيار تقييم للمتابعة',
+  'hints.provideFeedback': '✏️ يرجى كتابة ملاحظاتك للمتابعة',
+  'hints.contactInfo': '📝 يرجى إدخال معلومات الاتصال للإرسال',
+  'hints.completeRequired': 'يرجى إكمال الحقول المطلوبة للمتابعة',
+  'hints.fixErrors': 'يرجى تصحيح أخطاء التحقق أعلاه',
+
+  'fields.feedback.label': 'شاركنا ما الذي أعجبك أو ما الذي يمكن تحسينه',
+  'fields.feedback.placeholder': 'ملاحظاتك التفصيلية تساعدنا على تحسين خدمتنا...',
+  'fields.feedback.required': 'الملاحظات مطلوبة',
+  'fields.feedback.minLength': {
+    zero: 'يجب ألا تقل الملاحظات عن {count} حرف',
+    one: 'يجب ألا تقل الملاحظات عن حرف واحد',
+    two: 'يجب ألا تقل الملاحظات عن حرفين',
+    few: 'يجب ألا تقل الملاحظات عن {count} أحرف',
+    many: 'يجب ألا تقل الملاحظات عن {count} حرفًا',
+    other: 'يجب ألا تقل الملاحظات عن {count} حرف'
+  },
+  'fields.feedback.unsatisfiedLabel': 'نأسف لسماع ذلك. ما الذي حدث؟',
+  'fields.feedback.unsatisfiedPlaceholder': 'أخبرنا بما حدث حتى نتمكن من إصلاحه...',
+  'fields.feedback.satisfiedLabel': 'يسعدنا ذلك! ما الذي أعجبك أكثر؟',
+  'fields.feedback.satisfiedPlaceholder': 'أخبرنا بما لفت انتباهك...',
+  'fields.issues.label': 'ما الجوانب التي واجهت فيها مشكلة؟',
+  'fields.issues.quality': 'جودة المنتج',
+  'fields.issues.support': 'خدمة العملاء',
+  'fields.issues.speed': 'السرعة أو التوصيل',
+  'fields.issues.price': 'السعر',
+  'fields.issues.usability': 'سهولة الاستخدام',
+  'fields.issues.other': 'شيء آخر',
+  'fields.attachments.label': 'لقطات شاشة أو ملفات (اختياري)',
+  'fields.contactConsent.label': 'يمكنكم التواصل معي بخصوص هذه الملاحظات',
+  'fields.testimonialConsent.label': 'يمكنكم اقتباس ملاحظاتي علنًا، كشهادة مثلًا',
+  'fields.name.label': 'الاسم الكامل / اسم الشركة',
+  'fields.name.placeholder': 'أدخل اسمك أو اسم شركتك',
+  'fields.name.required': 'الاسم مطلوب',
+  'fields.email.label': 'البريد الإلكتروني',
+  'fields.email.placeholder': 'أدخل بريدك الإلكتروني',
+  'fields.email.required': 'البريد الإلكتروني مطلوب',
+  'fields.selectPlaceholder': 'اختر خيارًا',
+
+  'validation.ratingRequired': 'يرجى اختيار تقييم',
+  'validation.required': 'هذا الحقل مطلوب',
+  'validation.minLength': {
+    zero: 'يجب ألا يقل عن {count} حرف',
+    one: 'يجب ألا يقل عن حرف واحد',
+    two: 'يجب ألا يقل عن حرفين',
+    few: 'يجب ألا يقل عن {count} أحرف',
+    many: 'يجب ألا يقل عن {count} حرفًا',
+    other: 'يجب ألا يقل عن {count} حرف'
+  },
+  'validation.maxLength': {
+    zero: 'يجب ألا يزيد عن {count} حرف',
+    one: 'يجب ألا يزيد عن حرف واحد',
+    two: 'يجب ألا يزيد عن حرفين',
+    few: 'يجب ألا يزيد عن {count} أحرف',
+    many: 'يجب ألا يزيد عن {count} حرفًا',
+    other: 'يجب ألا يزيد عن {count} حرف'
+  },
+  'validation.email': 'يرجى إدخال بريد إلكتروني صالح',
+  'validation.pattern': 'يرجى إدخال قيمة صالحة',
+  'validation.disposableEmail': 'يرجى استخدام عنوان بريد إلكتروني دائم وليس مؤقتًا',
+  'validation.profanity': 'يرجى إزالة الألفاظ المسيئة',
+  'validation.checking': 'جارٍ التحقق…',
+  'validation.fileType': 'نوع الملف {name} غير مدعوم',
+  'validation.fileSize': 'حجم {name} أكبر من {size}',
+  'validation.fileUnreadable': 'تعذّرت قراءة {name}. أزِله ثم أضفه مرة أخرى',
+  'validation.maxFiles': {
+    zero: 'يمكنك إرفاق {count} ملف كحد أقصى',
+    one: 'يمكنك إرفاق ملف واحد كحد أقصى',
+    two: 'يمكنك إرفاق ملفين كحد أقصى',
+    few: 'يمكنك إرفاق {count} ملفات كحد أقصى',
+    many: 'يمكنك إرفاق {count} ملفًا كحد أقصى',
+    other: 'يمكنك إرفاق {count} ملف كحد أقصى'
+  },
+
+  'scales.emoji.unsatisfied': 'غير راضٍ',
+  'scales.emoji.neutral': 'محايد',
+  'scales.emoji.satisfied': 'راضٍ',
+  'scales.csat.veryUnsatisfied': 'غير راضٍ إطلاقًا',
+  'scales.csat.unsatisfied': 'غير راضٍ',
+  'scales.csat.neutral': 'محايد',
+  'scales.csat.satisfied': 'راضٍ',
+  'scales.csat.verySatisfied': 'راضٍ جدًا',
+  'scales.nps.min': 'غير مرجح إطلاقًا',
+  'scales.nps.max': 'مرجح للغاية',
+  'scales.thumbs.down': 'غير مفيد',
+  'scales.thumbs.up': 'مفيد',
+  'scales.stars.terrible': 'سيئ جدًا',
+  'scales.stars.poor': 'ضعيف',
+  'scales.stars.average': 'متوسط',
+  'scales.stars.good': 'جيد',
+  'scales.stars.excellent': 'ممتاز',
+
+  'sentiment.positive': 'إيجابية',
+  'sentiment.neutral': 'محايدة',
+  'sentiment.negative': 'سلبية',
+  'sentiment.mismatch': 'تبدو ملاحظاتك {sentiment}، لكنك اخترت التقييم "{rating}". هل هذا هو التقييم الذي قصدته؟',
+
+  'draft.prompt': 'لديك رد غير مكتمل من {savedAt}. هل تريد المتابعة من حيث توقفت؟',
+  'draft.resume': 'متابعة المسودة',
+  'draft.discard': 'البدء من جديد',
+
+  'errors.webhookConfiguration': 'خطأ في إعداد الخادم. يرجى المحاولة لاحقًا.',
+  'errors.submitFailed': 'تعذر إرسال الملاحظات',
+  'errors.unexpected': 'حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.',
+  'errors.timeout': 'استغرق الخادم وقتًا طويلاً للرد. يرجى المحاولة مرة أخرى.',
+  'errors.rateLimited': 'لقد أرسلت عدة ردود مؤخرًا. يرجى الانتظار بضع دقائق قبل المحاولة مرة أخرى.',
+
+  'thankYou.title': 'شكرًا لك!',
+  'thankYou.message': 'تم إرسال ملاحظاتك بنجاح. نقدّر رأيك!',
+  'thankYou.queuedMessage': 'تعذر الوصول إلى الخادم، لذلك حُفظت ملاحظاتك على هذا الجهاز وسيتم إرسالها تلقائيًا عند عودة الاتصال.',
+  'thankYou.submitAnother': 'إرسال رد آخر',
+  'thankYou.ticket': 'رقمك المرجعي: {ticket}',
+  'thankYou.redirecting': {
+    zero: 'سننقلك الآن…',
+    one: 'سننقلك خلال ثانية واحدة…',
+    two: 'سننقلك خلال ثانيتين…',
+    few: 'سننقلك خلال {count} ثوانٍ…',
+    many: 'سننقلك خلال {count} ثانية…',
+    other: 'سننقلك خلال {count} ثانية…'
+  },
+  'thankYou.stayOnPage': 'البقاء في هذه الصفحة',
+  'thankYou.linkCopied': 'تم نسخ الرابط',
+
+  'attachments.dropzone': 'اسحب الملفات إلى هنا أو الصق لقطة شاشة',
+  'attachments.choose': 'اختيار ملفات',
+  'attachments.remove': 'إزالة {name}',
+  'attachments.processing': 'جارٍ تجهيز الملفات…',
+  'attachments.limits': {
+    zero: 'حتى {count} ملف، بحجم {size} لكل ملف',
+    one: 'ملف واحد بحجم {size} كحد أقصى',
+    two: 'حتى ملفين، بحجم {size} لكل ملف',
+    few: 'حتى {count} ملفات، بحجم {size} لكل ملف',
+    many: 'حتى {count} ملفًا، بحجم {size} لكل ملف',
+    other: 'حتى {count} ملف، بحجم {size} لكل ملف'
+  },
+
+  'survey.loading': 'جارٍ تحميل الاستبيان…',
+  'survey.notFound': 'الاستبيان غير موجود',
+  'survey.notFoundMessage': 'تحقق من الرابط الذي اتبعته، أو اطلب رابطًا جديدًا من مُرسله.',
+  'survey.loadError': 'تعذر تحميل هذا الاستبيان',
+  'survey.loadErrorMessage': 'يرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+  'survey.retry': 'إعادة المحاولة',
+  'survey.closed': 'هذا الاستبيان مغلق',
+  'survey.closedMessage': 'لم يعد يستقبل ردودًا. شكرًا لاهتمامك.',
+  'survey.ended': 'توقف عن استقبال الردود في {date}. شكرًا لاهتمامك.',
+  'survey.full': 'تلقى جميع الردود التي يحتاجها. شكرًا لاهتمامك.',
+
+  'privacy.consentText': 'أوافق على حفظ بيانات الاتصال الخاصة بي واستخدامها لمتابعة هذه الملاحظات.',
+  'privacy.policyLink': 'سياسة الخصوصية',
+  'privacy.consentHint': 'يرجى الموافقة على حفظ بيانات الاتصال الخاصة بك لإرسال الملاحظات',
+
+  'theme.label': 'سمة الألوان',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.system': 'حسب النظام',
+
+  'widget.button': 'ملاحظات',
+  'widget.close': 'إغلاق'
+};
+
+export default ar;
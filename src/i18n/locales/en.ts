@@ -0,0 +1,156 @@
+import type { MessageCatalog } from '..';
+
+const en: MessageCatalog = {
+  'form.title': 'How was your experience?',
+  'form.subtitle': 'Please rate your overall satisfaction',
+  'form.submit': 'Submit Feedback',
+  'form.submitting': 'Submitting...',
+
+  'steps.rating': 'Your rating',
+  'steps.feedback': 'Your feedback',
+  'steps.contact': 'Contact details',
+
+  'wizard.progress': 'Progress',
+  'wizard.stepOf': 'Step {current} of {total}',
+  'wizard.stepLabel': 'Step {current} of {total}: {title}',
+  'wizard.completed': 'completed',
+  'wizard.next': 'Next',
+  'wizard.back': 'Back',
+
+  'hints.selectRating': '👆 Please select a rating to continue',
+  'hints.provideFeedback': '✏️ Please provide your feedback to continue',
+  'hints.contactInfo': '📝 Please fill in your contact information to submit',
+  'hints.completeRequired': 'Please complete the required fields to continue',
+  'hints.fixErrors': 'Please fix the validation errors above',
+
+  'fields.feedback.label': 'Please share what worked well or what could be improved',
+  'fields.feedback.placeholder': 'Your detailed feedback helps us improve our service...',
+  'fields.feedback.required': 'Feedback is required',
+  'fields.feedback.minLength': {
+    one: 'Feedback must be at least {count} character',
+    other: 'Feedback must be at least {count} characters'
+  },
+  'fields.feedback.unsatisfiedLabel': 'Sorry to hear that. What went wrong?',
+  'fields.feedback.unsatisfiedPlaceholder': 'Tell us what happened so we can put it right...',
+  'fields.feedback.satisfiedLabel': 'Glad to hear it! What did you like most?',
+  'fields.feedback.satisfiedPlaceholder': 'Tell us what stood out for you...',
+  'fields.issues.label': 'Which areas were a problem?',
+  'fields.issues.quality': 'Product quality',
+  'fields.issues.support': 'Customer support',
+  'fields.issues.speed': 'Speed or delivery',
+  'fields.issues.price': 'Price',
+  'fields.issues.usability': 'Ease of use',
+  'fields.issues.other': 'Something else',
+  'fields.attachments.label': 'Screenshots or files (optional)',
+  'fields.contactConsent.label': 'You may contact me about this feedback',
+  'fields.testimonialConsent.label': 'You may quote my feedback publicly, e.g. as a testimonial',
+  'fields.name.label': 'Full Name / Company Name',
+  'fields.name.placeholder': 'Enter your name or company name',
+  'fields.name.required': 'Name is required',
+  'fields.email.label': 'Email Address',
+  'fields.email.placeholder': 'Enter your email address',
+  'fields.email.required': 'Email is required',
+  'fields.selectPlaceholder': 'Select an option',
+
+  'validation.ratingRequired': 'Please select a rating',
+  'validation.required': 'This field is required',
+  'validation.minLength': {
+    one: 'Must be at least {count} character',
+    other: 'Must be at least {count} characters'
+  },
+  'validation.maxLength': {
+    one: 'Must be at most {count} character',
+    other: 'Must be at most {count} characters'
+  },
+  'validation.email': 'Please enter a valid email address',
+  'validation.pattern': 'Please enter a valid value',
+  'validation.disposableEmail': 'Please use a permanent email address, not a temporary one',
+  'validation.profanity': 'Please remove offensive language',
+  'validation.checking': 'Checking…',
+  'validation.fileType': '{name} is not a supported file type',
+  'validation.fileSize': '{name} is larger than {size}',
+  'validation.fileUnreadable': '{name} could not be read. Please remove it and add it again',
+  'validation.maxFiles': {
+    one: 'Attach at most {count} file',
+    other: 'Attach at most {count} files'
+  },
+
+  'scales.emoji.unsatisfied': 'Unsatisfied',
+  'scales.emoji.neutral': 'Neutral',
+  'scales.emoji.satisfied': 'Satisfied',
+  'scales.csat.veryUnsatisfied': 'Very unsatisfied',
+  'scales.csat.unsatisfied': 'Unsatisfied',
+  'scales.csat.neutral': 'Neutral',
+  'scales.csat.satisfied': 'Satisfied',
+  'scales.csat.verySatisfied': 'Very satisfied',
+  'scales.nps.min': 'Not at all likely',
+  'scales.nps.max': 'Extremely likely',
+  'scales.thumbs.down': 'Not helpful',
+  'scales.thumbs.up': 'Helpful',
+  'scales.stars.terrible': 'Terrible',
+  'scales.stars.poor': 'Poor',
+  'scales.stars.average': 'Average',
+  'scales.stars.good': 'Good',
+  'scales.stars.excellent': 'Excellent',
+
+  'sentiment.positive': 'positive',
+  'sentiment.neutral': 'neutral',
+  'sentiment.negative': 'negative',
+  'sentiment.mismatch': 'Your comments sound {sentiment}, but you rated us "{rating}". Is that the rating you meant?',
+
+  'draft.prompt': 'You have an unfinished response from {savedAt}. Would you like to pick up where you left off?',
+  'draft.resume': 'Resume draft',
+  'draft.discard': 'Start over',
+
+  'errors.webhookConfiguration': 'Webhook configuration error. Please try again later.',
+  'errors.submitFailed': 'Failed to submit feedback',
+  'errors.unexpected': 'An unexpected error occurred. Please try again.',
+  'errors.timeout': 'The server took too long to respond. Please try again.',
+  'errors.rateLimited': "You've sent several responses recently. Please wait a few minutes before trying again.",
+
+  'thankYou.title': 'Thank You!',
+  'thankYou.message': 'Your feedback has been submitted successfully. We appreciate your input!',
+  'thankYou.queuedMessage': "We couldn't reach our server, so your feedback has been saved on this device. It will be sent automatically once you're back online.",
+  'thankYou.submitAnother': 'Submit Another Response',
+  'thankYou.ticket': 'Your reference: {ticket}',
+  'thankYou.redirecting': {
+    one: 'Taking you onwards in {count} second…',
+    other: 'Taking you onwards in {count} seconds…'
+  },
+  'thankYou.stayOnPage': 'Stay on this page',
+  'thankYou.linkCopied': 'Link copied to clipboard',
+
+  'attachments.dropzone': 'Drag files here or paste a screenshot',
+  'attachments.choose': 'Choose files',
+  'attachments.remove': 'Remove {name}',
+  'attachments.processing': 'Preparing files…',
+  'attachments.limits': {
+    one: 'Up to {count} file, {size} each',
+    other: 'Up to {count} files, {size} each'
+  },
+
+  'survey.loading': 'Loading survey…',
+  'survey.notFound': 'Survey not found',
+  'survey.notFoundMessage': 'Check the link you followed, or ask whoever sent it for a new one.',
+  'survey.loadError': "This survey couldn't be loaded",
+  'survey.loadErrorMessage': 'Please check your connection and try again.',
+  'survey.retry': 'Try again',
+  'survey.closed': 'This survey is closed',
+  'survey.closedMessage': 'It is no longer taking responses. Thank you for your interest.',
+  'survey.ended': 'It stopped taking responses on {date}. Thank you for your interest.',
+  'survey.full': 'It has received all the responses it needs. Thank you for your interest.',
+
+  'privacy.consentText': 'I agree to my contact details being stored and used to follow up on this feedback.',
+  'privacy.policyLink': 'Privacy policy',
+  'privacy.consentHint': 'Please agree to the storage of your contact details to submit',
+
+  'theme.label': 'Theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'Match system',
+
+  'widget.button': 'Feedback',
+  'widget.close': 'Close'
+};
+
+export default en;
@@ -0,0 +1,156 @@
+import type { MessageCatalog } from '..';
+
+const es: MessageCatalog = {
+  'form.title': '¿Cómo fue tu experiencia?',
+  'form.subtitle': 'Por favor, valora tu satisfacción general',
+  'form.submit': 'Enviar comentarios',
+  'form.submitting': 'Enviando...',
+
+  'steps.rating': 'Tu valoración',
+  'steps.feedback': 'Tus comentarios',
+  'steps.contact': 'Datos de contacto',
+
+  'wizard.progress': 'Progreso',
+  'wizard.stepOf': 'Paso {current} de {total}',
+  'wizard.stepLabel': 'Paso {current} de {total}: {title}',
+  'wizard.completed': 'completado',
+  'wizard.next': 'Siguiente',
+  'wizard.back': 'Atrás',
+
+  'hints.selectRating': '👆 Selecciona una valoración para continuar',
+  'hints.provideFeedback': '✏️ Escribe tus comentarios para continuar',
+  'hints.contactInfo': '📝 Completa tus datos de contacto para enviar',
+  'hints.completeRequired': 'Completa los campos obligatorios para continuar',
+  'hints.fixErrors': 'Corrige los errores de validación indicados arriba',
+
+  'fields.feedback.label': 'Cuéntanos qué funcionó bien o qué podríamos mejorar',
+  'fields.feedback.placeholder': 'Tus comentarios detallados nos ayudan a mejorar nuestro servicio...',
+  'fields.feedback.required': 'Los comentarios son obligatorios',
+  'fields.feedback.minLength': {
+    one: 'Los comentarios deben tener al menos {count} carácter',
+    other: 'Los comentarios deben tener al menos {count} caracteres'
+  },
+  'fields.feedback.unsatisfiedLabel': 'Lamentamos oírlo. ¿Qué salió mal?',
+  'fields.feedback.unsatisfiedPlaceholder': 'Cuéntanos qué pasó para que podamos solucionarlo...',
+  'fields.feedback.satisfiedLabel': '¡Nos alegra! ¿Qué es lo que más te gustó?',
+  'fields.feedback.satisfiedPlaceholder': 'Cuéntanos qué destacarías...',
+  'fields.issues.label': '¿Qué aspectos fallaron?',
+  'fields.issues.quality': 'Calidad del producto',
+  'fields.issues.support': 'Atención al cliente',
+  'fields.issues.speed': 'Rapidez o entrega',
+  'fields.issues.price': 'Precio',
+  'fields.issues.usability': 'Facilidad de uso',
+  'fields.issues.other': 'Otra cosa',
+  'fields.attachments.label': 'Capturas de pantalla o archivos (opcional)',
+  'fields.contactConsent.label': 'Podéis contactarme sobre estos comentarios',
+  'fields.testimonialConsent.label': 'Podéis citar mis comentarios públicamente, por ejemplo como testimonio',
+  'fields.name.label': 'Nombre completo / Empresa',
+  'fields.name.placeholder': 'Escribe tu nombre o el de tu empresa',
+  'fields.name.required': 'El nombre es obligatorio',
+  'fields.email.label': 'Correo electrónico',
+  'fields.email.placeholder': 'Escribe tu correo electrónico',
+  'fields.email.required': 'El correo electrónico es obligatorio',
+  'fields.selectPlaceholder': 'Selecciona una opción',
+
+  'validation.ratingRequired': 'Selecciona una valoración',
+  'validation.required': 'Este campo es obligatorio',
+  'validation.minLength': {
+    one: 'Debe tener al menos {count} carácter',
+    other: 'Debe tener al menos {count} caracteres'
+  },
+  'validation.maxLength': {
+    one: 'Debe tener como máximo {count} carácter',
+    other: 'Debe tener como máximo {count} caracteres'
+  },
+  'validation.email': 'Introduce un correo electrónico válido',
+  'validation.pattern': 'Introduce un valor válido',
+  'validation.disposableEmail': 'Usa una dirección de correo permanente, no una temporal',
+  'validation.profanity': 'Elimina el lenguaje ofensivo',
+  'validation.checking': 'Comprobando…',
+  'validation.fileType': '{name} no es un tipo de archivo admitido',
+  'validation.fileSize': '{name} ocupa más de {size}',
+  'validation.fileUnreadable': 'No se pudo leer {name}. Quítalo y vuelve a añadirlo',
+  'validation.maxFiles': {
+    one: 'Adjunta como máximo {count} archivo',
+    other: 'Adjunta como máximo {count} archivos'
+  },
+
+  'scales.emoji.unsatisfied': 'Insatisfecho',
+  'scales.emoji.neutral': 'Neutral',
+  'scales.emoji.satisfied': 'Satisfecho',
+  'scales.csat.veryUnsatisfied': 'Muy insatisfecho',
+  'scales.csat.unsatisfied': 'Insatisfecho',
+  'scales.csat.neutral': 'Neutral',
+  'scales.csat.satisfied': 'Satisfecho',
+  'scales.csat.verySatisfied': 'Muy satisfecho',
+  'scales.nps.min': 'Nada probable',
+  'scales.nps.max': 'Muy probable',
+  'scales.thumbs.down': 'No útil',
+  'scales.thumbs.up': 'Útil',
+  'scales.stars.terrible': 'Pésimo',
+  'scales.stars.poor': 'Malo',
+  'scales.stars.average': 'Regular',
+  'scales.stars.good': 'Bueno',
+  'scales.stars.excellent': 'Excelente',
+
+  'sentiment.positive': 'positivos',
+  'sentiment.neutral': 'neutrales',
+  'sentiment.negative': 'negativos',
+  'sentiment.mismatch': 'Tus comentarios parecen {sentiment}, pero nos valoraste como "{rating}". ¿Es la valoración que querías?',
+
+  'draft.prompt': 'Tienes una respuesta sin terminar del {savedAt}. ¿Quieres continuar donde lo dejaste?',
+  'draft.resume': 'Continuar borrador',
+  'draft.discard': 'Empezar de nuevo',
+
+  'errors.webhookConfiguration': 'Error de configuración del webhook. Inténtalo de nuevo más tarde.',
+  'errors.submitFailed': 'No se pudieron enviar los comentarios',
+  'errors.unexpected': 'Se produjo un error inesperado. Inténtalo de nuevo.',
+  'errors.timeout': 'El servidor tardó demasiado en responder. Inténtalo de nuevo.',
+  'errors.rateLimited': 'Has enviado varias respuestas recientemente. Espera unos minutos antes de volver a intentarlo.',
+
+  'thankYou.title': '¡Gracias!',
+  'thankYou.message': 'Tus comentarios se enviaron correctamente. ¡Agradecemos tu opinión!',
+  'thankYou.queuedMessage': 'No pudimos conectar con nuestro servidor, así que tus comentarios se guardaron en este dispositivo. Se enviarán automáticamente cuando vuelvas a tener conexión.',
+  'thankYou.submitAnother': 'Enviar otra respuesta',
+  'thankYou.ticket': 'Tu referencia: {ticket}',
+  'thankYou.redirecting': {
+    one: 'Te llevaremos a la siguiente página en {count} segundo…',
+    other: 'Te llevaremos a la siguiente página en {count} segundos…'
+  },
+  'thankYou.stayOnPage': 'Quedarme en esta página',
+  'thankYou.linkCopied': 'Enlace copiado al portapapeles',
+
+  'attachments.dropzone': 'Arrastra archivos aquí o pega una captura de pantalla',
+  'attachments.choose': 'Elegir archivos',
+  'attachments.remove': 'Quitar {name}',
+  'attachments.processing': 'Preparando archivos…',
+  'attachments.limits': {
+    one: 'Hasta {count} archivo de {size} como máximo',
+    other: 'Hasta {count} archivos de {size} como máximo cada uno'
+  },
+
+  'survey.loading': 'Cargando encuesta…',
+  'survey.notFound': 'Encuesta no encontrada',
+  'survey.notFoundMessage': 'Revisa el enlace que has seguido o pide uno nuevo a quien te lo envió.',
+  'survey.loadError': 'No se ha podido cargar la encuesta',
+  'survey.loadErrorMessage': 'Comprueba tu conexión y vuelve a intentarlo.',
+  'survey.retry': 'Reintentar',
+  'survey.closed': 'Esta encuesta está cerrada',
+  'survey.closedMessage': 'Ya no acepta respuestas. Gracias por tu interés.',
+  'survey.ended': 'Dejó de aceptar respuestas el {date}. Gracias por tu interés.',
+  'survey.full': 'Ya ha recibido todas las respuestas que necesitaba. Gracias por tu interés.',
+
+  'privacy.consentText': 'Acepto que mis datos de contacto se guarden y se usen para dar seguimiento a estos comentarios.',
+  'privacy.policyLink': 'Política de privacidad',
+  'privacy.consentHint': 'Acepta el almacenamiento de tus datos de contacto para enviar',
+
+  'theme.label': 'Tema de color',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.system': 'Según el sistema',
+
+  'widget.button': 'Comentarios',
+  'widget.close': 'Cerrar'
+};
+
+export default es;
@@ -0,0 +1,162 @@
+import type { MessageCatalog } from '..';
+
+const he: MessageCatalog = {
+  'form.title': 'איך הייתה החוויה שלך?',
+  'form.subtitle': 'נא לדרג את שביעות הרצון הכללית שלך',
+  'form.submit': 'שליחת משוב',
+  'form.submitting': 'שולח...',
+
+  'steps.rating': 'הדירוג שלך',
+  'steps.feedback': 'המשוב שלך',
+  'steps.contact': 'פרטי קשר',
+
+  'wizard.progress': 'התקדמות',
+  'wizard.stepOf': 'שלב {current} מתוך {total}',
+  'wizard.stepLabel': 'שלב {current} מתוך {total}: {title}',
+  'wizard.completed': 'הושלם',
+  'wizard.next': 'הבא',
+  'wizard.back': 'חזרה',
+
+  'hints.selectRating': '👆 נא לבחור דירוג כדי להמשיך',
+  'hints.provideFeedback': '✏️ נא לכתוב משוב כדי להמשיך',
+  'hints.contactInfo': '📝 נא למלא את פרטי הקשר כדי לשלוח',
+  'hints.completeRequired': 'נא למלא את שדות החובה כדי להמשיך',
+  'hints.fixErrors': 'נא לתקן את שגיאות האימות שלמעלה',
+
+  'fields.feedback.label': 'ספרו לנו מה עבד טוב ומה אפשר לשפר',
+  'fields.feedback.placeholder': 'משוב מפורט עוזר לנו לשפר את השירות...',
+  'fields.feedback.required': 'נדרש משוב',
+  'fields.feedback.minLength': {
+    one: 'המשוב חייב להכיל לפחות תו אחד',
+    two: 'המשוב חייב להכיל לפחות {count} תווים',
+    other: 'המשוב חייב להכיל לפחות {count} תווים'
+  },
+  'fields.feedback.unsatisfiedLabel': 'מצטערים לשמוע. מה השתבש?',
+  'fields.feedback.unsatisfiedPlaceholder': 'ספרו לנו מה קרה כדי שנוכל לתקן...',
+  'fields.feedback.satisfiedLabel': 'שמחים לשמוע! מה אהבתם במיוחד?',
+  'fields.feedback.satisfiedPlaceholder': 'ספרו לנו מה בלט בעיניכם...',
+  'fields.issues.label': 'באילו תחומים הייתה בעיה?',
+  'fields.issues.quality': 'איכות המוצר',
+  'fields.issues.support': 'שירות לקוחות',
+  'fields.issues.speed': 'מהירות או משלוח',
+  'fields.issues.price': 'מחיר',
+  'fields.issues.usability': 'קלות שימוש',
+  'fields.issues.other': 'משהו אחר',
+  'fields.attachments.label': 'צילומי מסך או קבצים (לא חובה)',
+  'fields.contactConsent.label': 'אפשר ליצור איתי קשר בנוגע למשוב הזה',
+  'fields.testimonialConsent.label': 'אפשר לצטט את המשוב שלי בפומבי, למשל כהמלצה',
+  'fields.name.label': 'שם מלא / שם החברה',
+  'fields.name.placeholder': 'נא להזין את שמך או את שם החברה',
+  'fields.name.required': 'נדרש שם',
+  'fields.email.label': 'כתובת דוא"ל',
+  'fields.email.placeholder': 'נא להזין את כתובת הדוא"ל שלך',
+  'fields.email.required': 'נדרשת כתובת דוא"ל',
+  'fields.selectPlaceholder': 'נא לבחור אפשרות',
+
+  'validation.ratingRequired': 'יש לבחור דירוג',
+  'validation.required': 'שדה חובה',
+  'validation.minLength': {
+    one: 'נדרש לפחות תו אחד',
+    two: 'נדרשים לפחות {count} תווים',
+    other: 'נדרשים לפחות {count} תווים'
+  },
+  'validation.maxLength': {
+    one: 'מותר תו אחד לכל היותר',
+    two: 'מותרים {count} תווים לכל היותר',
+    other: 'מותרים {count} תווים לכל היותר'
+  },
+  'validation.email': 'נא להזין כתובת דוא"ל תקינה',
+  'validation.pattern': 'נא להזין ערך תקין',
+  'validation.disposableEmail': 'יש להשתמש בכתובת דוא״ל קבועה ולא זמנית',
+  'validation.profanity': 'יש להסיר ביטויים פוגעניים',
+  'validation.checking': 'בודק…',
+  'validation.fileType': 'סוג הקובץ {name} אינו נתמך',
+  'validation.fileSize': 'הקובץ {name} גדול מ-{size}',
+  'validation.fileUnreadable': 'לא ניתן לקרוא את {name}. יש להסיר אותו ולהוסיף שוב',
+  'validation.maxFiles': {
+    one: 'ניתן לצרף קובץ אחד לכל היותר',
+    two: 'ניתן לצרף {count} קבצים לכל היותר',
+    other: 'ניתן לצרף {count} קבצים לכל היותר'
+  },
+
+  'scales.emoji.unsatisfied': 'לא מרוצה',
+  'scales.emoji.neutral': 'ניטרלי',
+  'scales.emoji.satisfied': 'מרוצה',
+  'scales.csat.veryUnsatisfied': 'לא מרוצה בכלל',
+  'scales.csat.unsatisfied': 'לא מרוצה',
+  'scales.csat.neutral': 'ניטרלי',
+  'scales.csat.satisfied': 'מרוצה',
+  'scales.csat.verySatisfied': 'מרוצה מאוד',
+  'scales.nps.min': 'בכלל לא סביר',
+  'scales.nps.max': 'סביר מאוד',
+  'scales.thumbs.down': 'לא מועיל',
+  'scales.thumbs.up': 'מועיל',
+  'scales.stars.terrible': 'נורא',
+  'scales.stars.poor': 'חלש',
+  'scales.stars.average': 'בינוני',
+  'scales.stars.good': 'טוב',
+  'scales.stars.excellent': 'מצוין',
+
+  'sentiment.positive': 'חיוביות',
+  'sentiment.neutral': 'ניטרליות',
+  'sentiment.negative': 'שליליות',
+  'sentiment.mismatch': 'ההערות שלך נשמעות {sentiment}, אבל בחרת בדירוג "{rating}". האם לזה התכוונת?',
+
+  'draft.prompt': 'יש לך תשובה שלא הושלמה מ-{savedAt}. להמשיך מהמקום שבו הפסקת?',
+  'draft.resume': 'המשך טיוטה',
+  'draft.discard': 'התחל מחדש',
+
+  'errors.webhookConfiguration': 'שגיאת הגדרה של ה-Webhook. נא לנסות שוב מאוחר יותר.',
+  'errors.submitFailed': 'שליחת המשוב נכשלה',
+  'errors.unexpected': 'אירעה שגיאה בלתי צפויה. נא לנסות שוב.',
+  'errors.timeout': 'השרת לא הגיב בזמן. נא לנסות שוב.',
+  'errors.rateLimited': 'שלחת כמה תגובות לאחרונה. נא להמתין כמה דקות לפני שמנסים שוב.',
+
+  'thankYou.title': 'תודה!',
+  'thankYou.message': 'המשוב שלך נשלח בהצלחה. אנו מעריכים את דעתך!',
+  'thankYou.queuedMessage': 'לא הצלחנו להתחבר לשרת, ולכן המשוב נשמר במכשיר זה. הוא יישלח אוטומטית כשהחיבור יחזור.',
+  'thankYou.submitAnother': 'שליחת תגובה נוספת',
+  'thankYou.ticket': 'מספר האסמכתה שלך: {ticket}',
+  'thankYou.redirecting': {
+    one: 'נעביר אותך בעוד שנייה…',
+    two: 'נעביר אותך בעוד {count} שניות…',
+    other: 'נעביר אותך בעוד {count} שניות…'
+  },
+  'thankYou.stayOnPage': 'להישאר בדף הזה',
+  'thankYou.linkCopied': 'הקישור הועתק',
+
+  'attachments.dropzone': 'גררו קבצים לכאן או הדביקו צילום מסך',
+  'attachments.choose': 'בחירת קבצים',
+  'attachments.remove': 'הסרת {name}',
+  'attachments.processing': 'מכין קבצים…',
+  'attachments.limits': {
+    one: 'קובץ אחד עד {size}',
+    two: 'עד {count} קבצים, {size} לכל קובץ',
+    other: 'עד {count} קבצים, {size} לכל קובץ'
+  },
+
+  'survey.loading': 'טוען סקר…',
+  'survey.notFound': 'הסקר לא נמצא',
+  'survey.notFoundMessage': 'בדקו את הקישור, או בקשו קישור חדש ממי ששלח אותו.',
+  'survey.loadError': 'לא ניתן לטעון את הסקר',
+  'survey.loadErrorMessage': 'נא לבדוק את החיבור ולנסות שוב.',
+  'survey.retry': 'ניסיון נוסף',
+  'survey.closed': 'הסקר הזה סגור',
+  'survey.closedMessage': 'הסקר כבר לא מקבל תשובות. תודה על ההתעניינות.',
+  'survey.ended': 'הסקר הפסיק לקבל תשובות ב-{date}. תודה על ההתעניינות.',
+  'survey.full': 'הסקר קיבל את כל התשובות שהוא צריך. תודה על ההתעניינות.',
+
+  'privacy.consentText': 'אני מסכים/ה לשמירת פרטי הקשר שלי ולשימוש בהם לצורך מעקב אחר המשוב הזה.',
+  'privacy.policyLink': 'מדיניות פרטיות',
+  'privacy.consentHint': 'יש לאשר את שמירת פרטי הקשר כדי לשלוח',
+
+  'theme.label': 'ערכת צבעים',
+  'theme.light': 'בהירה',
+  'theme.dark': 'כהה',
+  'theme.system': 'לפי המערכת',
+
+  'widget.button': 'משוב',
+  'widget.close': 'סגירה'
+};
+
+export default he;
@@ -0,0 +1,95 @@
+import type { FeedbackData } from '../types/feedback';
+import type { ExportFormat } from './types';
+
+type Column = [header: string, value: (record: FeedbackData) => unknown];
+
+const BASE_COLUMNS: Column[] = [
+  ['submissionId', (record) => record.submissionId],
+  ['timestamp', (record) => record.timestamp],
+  ['ratingScale', (record) => record.ratingScale],
+  ['rating', (record) => record.rating],
+  ['ratingLabel', (record) => record.ratingLabel],
+  ['branch', (record) => record.branch],
+  ['feedback', (record) => record.feedback],
+  ['name', (record) => record.name],
+  ['email', (record) => record.email],
+  ['locale', (record) => record.locale],
+  ['sentiment', (record) => record.sentiment.label],
+  ['sentimentPolarity', (record) => record.sentiment.polarity],
+  ['sentimentMismatch', (record) => record.sentimentMismatch],
+  ['spamScore', (record) => record.spam.score],
+  ['spamSignals', (record) => record.spam.signals],
+  ['consentGivenAt', (record) => record.consent?.givenAt],
+  ['pageUrl', (record) => record.metadata.pageUrl],
+  ['referrer', (record) => record.metadata.referrer],
+  ['device', (record) => record.metadata.device?.type],
+  ['timeToCompleteMs', (record) => record.metadata.timeToCompleteMs],
+  ['attachments', (record) => record.attachments.map((attachment) => attachment.name)]
+];
+
+// One column per key seen in any record, in order of first appearance
+const keyedColumns = (
+  records: FeedbackData[],
+  prefix: string,
+  entries: (record: FeedbackData) => Record<string, unknown>
+): Column[] => {
+  const keys = [...new Set(records.flatMap((record) => Object.keys(entries(record))))];
+  return keys.map((key): Column => [`${prefix}.${key}`, (record) => entries(record)[key]]);
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return formatCell(value.join('; '));
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  // Respondent text could smuggle in a formula; a leading apostrophe keeps it text
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with a header row. Nested answers, context and UTM parameters get a column each; multiple values
+// share a cell, separated by "; ". Attachments are listed by name only.
+export const toCSV = (records: FeedbackData[]): string => {
+  const columns = [
+    ...BASE_COLUMNS,
+    ...keyedColumns(records, 'utm', (record) => record.metadata.utm),
+    ...keyedColumns(records, 'answers', (record) => record.answers),
+    ...keyedColumns(records, 'context', (record) => record.context)
+  ];
+  const rows = [
+    columns.map(([header]) => formatCell(header)),
+    ...records.map((record) => columns.map(([, value]) => formatCell(value(record))))
+  ];
+  return `${rows.map((row) => row.join(',')).join('\r\n')}\r\n`;
+};
+
+export const toJSON = (records: FeedbackData[]): string => `${JSON.stringify(records, null, 2)}\n`;
+
+// One record per line, for streaming tools such as jq or BigQuery loads
+export const toNDJSON = (records: FeedbackData[]): string =>
+  records.map((record) => `${JSON.stringify(record)}\n`).join('');
+
+export const exportFeedback = (records: FeedbackData[], format: ExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return toCSV(records);
+    case 'ndjson':
+      return toNDJSON(records);
+    default:
+      return toJSON(records);
+  }
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson'
+};
@@ -0,0 +1,59 @@
+import type { FeedbackData } from '../types/feedback';
+import type { ReportFilter } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseBound = (value: string | undefined, name: string): number | null => {
+  if (value === undefined) {
+    return null;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid "${name}" date: ${value}`);
+  }
+  return time;
+};
+
+export const filterFeedback = (records: FeedbackData[], filter: ReportFilter = {}): FeedbackData[] => {
+  const from = parseBound(filter.from, 'from');
+  const to = parseBound(filter.to, 'to');
+  // A bare date is midnight UTC; as an upper bound it should include the rest of that day
+  const toExclusive = to === null ? null : to + (DATE_ONLY.test(filter.to ?? '') ? DAY_MS : 1);
+
+  return records.filter((record) => {
+    const time = Date.parse(record.timestamp);
+    return (from === null || time >= from) &&
+      (toExclusive === null || time < toExclusive) &&
+      (filter.scale === undefined || record.ratingScale === filter.scale) &&
+      (filter.ratings === undefined || filter.ratings.includes(record.rating)) &&
+      (filter.minRating === undefined || record.rating >= filter.minRating) &&
+      (filter.maxRating === undefined || record.rating <= filter.maxRating);
+  });
+};
+
+const parseRating = (value: string, name: string): number => {
+  const rating = Number(value);
+  if (value.trim() === '' || !Number.isInteger(rating)) {
+    throw new Error(`Invalid "${name}" rating: ${value}`);
+  }
+  return rating;
+};
+
+// Builds a filter from string options named as on the command line and in query strings:
+// from, to, scale, rating (comma-separated), min-rating and max-rating
+export const parseReportFilter = (options: Record<string, string | undefined>): ReportFilter => {
+  const { from, to, scale, rating, 'min-rating': minRating, 'max-rating': maxRating } = options;
+  const filter: ReportFilter = {
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+    ...(scale ? { scale } : {}),
+    ...(rating ? { ratings: rating.split(',').map((value) => parseRating(value, 'rating')) } : {}),
+    ...(minRating ? { minRating: parseRating(minRating, 'min-rating') } : {}),
+    ...(maxRating ? { maxRating: parseRating(maxRating, 'max-rating') } : {})
+  };
+  // Surface bad dates now rather than on the first record
+  parseBound(filter.from, 'from');
+  parseBound(filter.to, 'to');
+  return filter;
+};
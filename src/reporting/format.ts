@@ -0,0 +1,39 @@
+import type { ReportSummary, TrendPoint } from './types';
+
+const BAR_WIDTH = 30;
+
+const scores = ({ average, csat, nps }: Pick<TrendPoint, 'average' | 'csat' | 'nps'>): string =>
+  [
+    average === null ? null : `average ${average}`,
+    csat === null ? null : `CSAT ${csat}%`,
+    nps === null ? null : `NPS ${nps}`
+  ].filter(Boolean).join(' · ');
+
+// Plain-text rendering of a summary for terminals and logs
+export const formatSummary = (summary: ReportSummary): string => {
+  if (summary.total === 0) {
+    return 'No responses match.\n';
+  }
+  const { positive, neutral, negative } = summary.sentiment;
+  const lines = [
+    `Responses: ${summary.total} (${summary.firstResponseAt?.slice(0, 10)} to ${summary.lastResponseAt?.slice(0, 10)})`,
+    `Sentiment: ${positive} positive · ${neutral} neutral · ${negative} negative; ${summary.sentimentMismatches} contradict their rating`
+  ];
+
+  summary.scales.forEach((scale) => {
+    lines.push('', `${scale.scale}: ${scale.count} responses · ${scores(scale)}`);
+    const largest = Math.max(...Object.values(scale.distribution));
+    Object.entries(scale.distribution).forEach(([rating, count]) => {
+      const bar = '█'.repeat(largest === 0 ? 0 : Math.round((count / largest) * BAR_WIDTH));
+      lines.push(`  ${rating.padStart(2)} ${bar} ${count}`);
+    });
+    scale.trend.forEach((point) => {
+      lines.push(`  ${point.period.padEnd(10)} ${String(point.count).padStart(5)}  ${scores(point)}`);
+    });
+  });
+
+  if (summary.terms.length > 0) {
+    lines.push('', `Top terms: ${summary.terms.map(({ term, count }) => `${term} (${count})`).join(', ')}`);
+  }
+  return `${lines.join('\n')}\n`;
+};
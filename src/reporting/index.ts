@@ -0,0 +1,17 @@
+export { filterFeedback, parseReportFilter } from './filter';
+export { computeRatingStats, countTerms, periodKey, summarizeFeedback } from './stats';
+export { EXPORT_MIME_TYPES, exportFeedback, toCSV, toJSON, toNDJSON } from './export';
+export { formatSummary } from './format';
+export { parseFeedbackRecords } from './parse';
+export type { ParsedRecords } from './parse';
+export type {
+  ExportFormat,
+  RatingStats,
+  ReportFilter,
+  ReportSummary,
+  ScaleSummary,
+  SummaryOptions,
+  TermCount,
+  TrendPeriod,
+  TrendPoint
+} from './types';
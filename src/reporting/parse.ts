@@ -0,0 +1,57 @@
+import type { FeedbackData } from '../types/feedback';
+import { FEEDBACK_SCHEMA_VERSION, validateFeedbackData } from '../utils/validateFeedbackData';
+
+export interface ParsedRecords {
+  records: FeedbackData[];
+  // Entries that are not FeedbackData, by position in the input, with the validator's problems
+  rejected: Array<{ index: number; problems: string[] }>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The mock webhook stores { receivedAt, payload }. Version 1 payloads only lack `attachments`, so they are
+// upgraded; anything older is left for the validator to reject.
+const toPayload = (entry: unknown): unknown => {
+  const payload = isRecord(entry) && isRecord(entry.payload) ? entry.payload : entry;
+  return isRecord(payload) && payload.schemaVersion === 1 && !('attachments' in payload)
+    ? { ...payload, schemaVersion: FEEDBACK_SCHEMA_VERSION, attachments: [] }
+    : payload;
+};
+
+const parseEntries = (text: string): unknown[] => {
+  const trimmed = text.trim();
+  if (trimmed === '') {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    // Not a single JSON document: read it as NDJSON
+  }
+  return trimmed.split(/\r?\n/).flatMap((line, index) => {
+    if (line.trim() === '') {
+      return [];
+    }
+    try {
+      return [JSON.parse(line) as unknown];
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+};
+
+// Reads a JSON array, NDJSON or a mock webhook store file; invalid entries are reported rather than thrown
+export const parseFeedbackRecords = (text: string): ParsedRecords => {
+  const result: ParsedRecords = { records: [], rejected: [] };
+  parseEntries(text).map(toPayload).forEach((entry, index) => {
+    const problems = validateFeedbackData(entry);
+    if (problems.length > 0) {
+      result.rejected.push({ index, problems });
+    } else {
+      result.records.push(entry as FeedbackData);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { FeedbackData } from '../types/feedback';
+import { FEEDBACK_SCHEMA_VERSION } from '../utils/validateFeedbackData';
+import {
+  countTerms,
+  filterFeedback,
+  parseFeedbackRecords,
+  parseReportFilter,
+  periodKey,
+  summarizeFeedback,
+  toCSV,
+  toNDJSON
+} from '.';
+
+const record = (overrides: Partial<FeedbackData> = {}): FeedbackData => ({
+  schemaVersion: FEEDBACK_SCHEMA_VERSION,
+  submissionId: 'id',
+  rating: 5,
+  ratingLabel: 'Very satisfied',
+  ratingScale: 'csat-5',
+  branch: null,
+  feedback: 'Great delivery',
+  name: '',
+  email: '',
+  consent: null,
+  redactions: {},
+  answers: {},
+  attachments: [],
+  sentiment: { score: 3, polarity: 1, label: 'positive', positiveTerms: ['great'], negativeTerms: [] },
+  sentimentMismatch: false,
+  locale: 'en',
+  spam: { score: 0, signals: [], timeToSubmitMs: 5000, honeypotFilled: false, recentSubmissions: 1 },
+  metadata: {
+    pageUrl: 'https://shop.test/checkout',
+    referrer: null,
+    utm: {},
+    device: null,
+    timeZone: 'Europe/Madrid',
+    timeToCompleteMs: 4000,
+    sessionId: null
+  },
+  context: {},
+  timestamp: '2026-03-02T10:00:00.000Z',
+  ...overrides
+});
+
+describe('filterFeedback', () => {
+  const records = [
+    record({ submissionId: 'a', rating: 1, timestamp: '2026-03-01T23:59:00.000Z' }),
+    record({ submissionId: 'b', rating: 4, timestamp: '2026-03-02T08:00:00.000Z' }),
+    record({ submissionId: 'c', rating: 9, ratingScale: 'nps-11', timestamp: '2026-03-03T00:00:00.000Z' })
+  ];
+  const ids = (filtered: FeedbackData[]) => filtered.map((entry) => entry.submissionId);
+
+  it('keeps whole days for date-only bounds and filters by scale and rating', () => {
+    expect(ids(filterFeedback(records, { from: '2026-03-02', to: '2026-03-02' }))).toEqual(['b']);
+    expect(ids(filterFeedback(records, { to: '2026-03-02T08:00:00.000Z' }))).toEqual(['a', 'b']);
+    expect(ids(filterFeedback(records, { scale: 'csat-5', minRating: 2 }))).toEqual(['b']);
+    expect(ids(filterFeedback(records, parseReportFilter({ rating: '1,9' })))).toEqual(['a', 'c']);
+  });
+
+  it('rejects filters it cannot read', () => {
+    expect(() => parseReportFilter({ from: 'last week' })).toThrow('Invalid "from" date: last week');
+    expect(() => parseReportFilter({ 'min-rating': 'four' })).toThrow('Invalid "min-rating" rating: four');
+  });
+});
+
+describe('summarizeFeedback', () => {
+  it('computes averages, CSAT and NPS per scale', () => {
+    const summary = summarizeFeedback([
+      ...[5, 4, 2, 1].map((rating) => record({ rating })),
+      ...[10, 9, 8, 3].map((rating) => record({ rating, ratingScale: 'nps-11', sentimentMismatch: rating === 3 }))
+    ]);
+
+    expect(summary).toMatchObject({ total: 8, sentimentMismatches: 1 });
+    expect(summary.scales[0]).toMatchObject({
+      scale: 'csat-5',
+      average: 3,
+      csat: 50,
+      nps: null,
+      distribution: { 1: 1, 2: 1, 3: 0, 4: 1, 5: 1 }
+    });
+    expect(summary.scales[1]).toMatchObject({ scale: 'nps-11', average: 7.5, csat: null, nps: 25 });
+  });
+
+  it('groups the trend by day or ISO week', () => {
+    expect(periodKey('2026-01-01T12:00:00.000Z', 'week')).toBe('2026-W01');
+    expect(periodKey('2027-01-01T12:00:00.000Z', 'week')).toBe('2026-W53');
+    expect(periodKey('2026-03-02T23:30:00.000Z', 'day')).toBe('2026-03-02');
+
+    const summary = summarizeFeedback(
+      [record({ timestamp: '2026-03-02T10:00:00.000Z' }), record({ rating: 3, timestamp: '2026-03-08T10:00:00.000Z' })],
+      { period: 'week' }
+    );
+    expect(summary.scales[0].trend).toEqual([{ period: '2026-W10', count: 2, average: 4, csat: 50, nps: null }]);
+  });
+
+  it('counts terms without stopwords or redaction placeholders', () => {
+    expect(countTerms(['The delivery was late', 'Late delivery, wrote to [email]', 'Entrega tardía'], 3)).toEqual([
+      { term: 'delivery', count: 2 },
+      { term: 'late', count: 2 },
+      { term: 'entrega', count: 1 }
+    ]);
+  });
+});
+
+describe('toCSV', () => {
+  it('quotes special characters, neutralises formulas and adds a column per answer', () => {
+    const csv = toCSV([
+      record({ feedback: 'Fast, "friendly"\nstaff', answers: { topics: ['price', 'speed'] } }),
+      record({ feedback: '=HYPERLINK("http://evil.test")', answers: { platform: 'web' } })
+    ]);
+    const [header, first, second] = csv.split('\r\n');
+
+    expect(header.endsWith(',answers.topics,answers.platform')).toBe(true);
+    expect(first).toContain('"Fast, ""friendly""\nstaff"');
+    expect(first.endsWith(',price; speed,')).toBe(true);
+    expect(second).toContain(`"'=HYPERLINK(""http://evil.test"")"`);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
+
+describe('parseFeedbackRecords', () => {
+  it('reads NDJSON and mock store files, upgrades version 1 payloads and reports invalid entries', () => {
+    const valid = record();
+    const { attachments: _attachments, ...legacy } = valid;
+
+    expect(parseFeedbackRecords(toNDJSON([valid, valid])).records).toHaveLength(2);
+    expect(parseFeedbackRecords(JSON.stringify([
+      { receivedAt: valid.timestamp, payload: { ...legacy, schemaVersion: 1 } },
+      { receivedAt: valid.timestamp, payload: { ...valid, rating: 'five' } }
+    ]))).toEqual({
+      records: [valid],
+      rejected: [{ index: 1, problems: ['Invalid value for "rating"'] }]
+    });
+    expect(() => parseFeedbackRecords('{"rating": 5}\n{oops')).toThrow('Line 2 is not valid JSON');
+  });
+});
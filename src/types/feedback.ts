@@ -0,0 +1,54 @@
+import type { FieldValue } from './formSchema';
+import type { SentimentResult } from './sentiment';
+import type { SpamAssessment } from './spam';
+import type { ConsentRecord, RedactionKind } from './privacy';
+import type { SubmissionMetadata } from './metadata';
+import type { FeedbackAttachment } from './attachment';
+
+export interface FeedbackData {
+  // FEEDBACK_SCHEMA_VERSION at the time of sending; receivers can branch on it when the shape changes
+  schemaVersion: number;
+  submissionId: string;
+  rating: number;
+  ratingLabel: string;
+  // Id of the RatingScale the rating was given on, so receivers can interpret `rating`
+  ratingScale: string;
+  // Id of the rating branch whose follow-up questions were asked; null when no branch matched
+  branch: string | null;
+  feedback: string;
+  // Empty when the respondent stayed anonymous
+  name: string;
+  email: string;
+  // Consent given for storing the contact details; null when the form did not ask for it
+  consent: ConsentRecord | null;
+  // How many emails, phone numbers and card numbers were masked in `feedback` before submission
+  redactions: Partial<Record<RedactionKind, number>>;
+  // Schema fields beyond feedback/name/email, keyed by field id
+  answers: Record<string, FieldValue>;
+  // Files from file fields, in field order; see FeedbackAttachment for the base64 and multipart forms
+  attachments: FeedbackAttachment[];
+  // Offline analysis of `feedback`; the mismatch flag marks text that contradicts the chosen rating
+  sentiment: SentimentResult;
+  sentimentMismatch: boolean;
+  // Locale the form was shown in, e.g. "es"
+  locale: string;
+  spam: SpamAssessment;
+  // Page, campaign, device and session details collected by the form
+  metadata: SubmissionMetadata;
+  // Host-supplied context such as an order id, user id or product SKU
+  context: Record<string, string>;
+  timestamp: string;
+}
+
+// Keyed by schema field id
+export type FormErrors = Partial<Record<string, string>>;
+
+export interface WebhookResponse {
+  success: boolean;
+  // Message key or literal text. On success it is the receiver's own message for the thank-you screen.
+  message?: string;
+  // Reference the receiver assigned to the response, e.g. a support ticket, shown on the thank-you screen
+  ticket?: string;
+  // True when the failure is transient (network error, 5xx, 408, 429) and the payload can be retried
+  retryable?: boolean;
+}
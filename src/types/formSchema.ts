@@ -0,0 +1,107 @@
+import type { Attachment } from './attachment';
+
+export type FieldType = 'text' | 'textarea' | 'email' | 'select' | 'checkbox' | 'checkboxGroup' | 'radio' | 'file';
+
+// Checkbox groups hold the values of every ticked option; file fields hold their attachments
+export type FieldValue = string | boolean | string[] | Attachment[];
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+export interface ValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  // Regular expression source, kept as a string so schemas stay plain JSON
+  pattern?: string;
+  // Refuses addresses at throwaway mail providers
+  blockDisposableEmail?: boolean;
+  // Refuses text containing words from the profanity list
+  blockProfanity?: boolean;
+  // File fields: MIME types or extensions such as ['image/*', '.pdf'], the size limit per file in bytes
+  // (checked after image downscaling) and the number of files
+  accept?: string[];
+  maxFileSize?: number;
+  maxFiles?: number;
+  // Ids of validators registered through the form's `validation` option, run after the built-in rules
+  validators?: string[];
+}
+
+// Message keys or literal text, keyed by rule or validator id; {count} is replaced by the rule's limit
+export interface FieldMessages {
+  required?: string;
+  minLength?: string;
+  maxLength?: string;
+  pattern?: string;
+  email?: string;
+  blockDisposableEmail?: string;
+  blockProfanity?: string;
+  readable?: string;
+  accept?: string;
+  maxFileSize?: string;
+  maxFiles?: string;
+  [validatorId: string]: string | undefined;
+}
+
+type ConditionValue = string | boolean | number;
+
+// `field` may name another schema field or the special "rating" key.
+// Against a checkbox group, `equals` and `in` match when any ticked option matches.
+export type VisibilityCondition =
+  | { field: string; filled: boolean }
+  | { field: string; equals: ConditionValue }
+  | { field: string; in: ConditionValue[] };
+
+export interface FormField {
+  id: string;
+  type: FieldType;
+  label: string;
+  placeholder?: string;
+  required?: boolean;
+  // Choices for select, radio and checkbox group fields
+  options?: FieldOption[];
+  rows?: number;
+  validation?: ValidationRules;
+  messages?: FieldMessages;
+  // Every condition must hold for the field to be shown, validated and submitted
+  visibleWhen?: VisibilityCondition[];
+  // Helper text shown under the form while this required field is still empty
+  hint?: string;
+  // Holds personal data such as a name or address; email fields are treated as personal by default
+  personal?: boolean;
+  // Only part of the form while one of these rating branches is active
+  branches?: string[];
+  // File fields: larger JPEG, PNG and WebP images are scaled down to fit `maxDimension` pixels before they
+  // are attached; `false` sends images as picked
+  downscale?: { maxDimension: number; quality?: number } | false;
+}
+
+// What a rating branch may change about a field while it is active
+export type FieldOverride = Partial<Pick<FormField, 'label' | 'placeholder' | 'hint' | 'required' | 'messages' | 'validation'>>;
+
+// Tailors the follow-up questions to the selected rating. The first branch whose `ratings` include the
+// selected value applies; `scale` limits it to one rating scale, since values mean different things on each.
+export interface RatingBranch {
+  id: string;
+  ratings: number[];
+  scale?: string;
+  // Keyed by field id
+  overrides?: Record<string, FieldOverride>;
+}
+
+// One page of a multi-step form. `fields` lists field ids in display order and may include "rating".
+export interface FormStep {
+  id: string;
+  // Message key or literal text, shown above the step and in the progress bar
+  title: string;
+  description?: string;
+  fields: string[];
+}
+
+export interface FormSchema {
+  fields: FormField[];
+  // Splits the form into pages; without steps the rating and every field share a single page
+  steps?: FormStep[];
+  branches?: RatingBranch[];
+}
@@ -0,0 +1,30 @@
+export type UtmParameter = 'source' | 'medium' | 'campaign' | 'term' | 'content';
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface DeviceInfo {
+  type: DeviceType;
+  userAgent: string;
+  viewportWidth: number;
+  viewportHeight: number;
+  screenWidth: number;
+  screenHeight: number;
+  pixelRatio: number;
+  // Primary pointer is a finger rather than a mouse
+  touch: boolean;
+}
+
+// Collected automatically at submit time; properties the deployment turned off are null (or empty for `utm`)
+export interface SubmissionMetadata {
+  pageUrl: string | null;
+  referrer: string | null;
+  // utm_* parameters from the landing URL, kept for the rest of the browser session
+  utm: Partial<Record<UtmParameter, string>>;
+  device: DeviceInfo | null;
+  // IANA zone such as "Europe/Madrid"
+  timeZone: string | null;
+  // From the form appearing (or "Submit another response") to submit
+  timeToCompleteMs: number;
+  // Shared by every response from this browser tab until it is closed
+  sessionId: string | null;
+}
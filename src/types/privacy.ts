@@ -0,0 +1,11 @@
+export type RedactionKind = 'email' | 'phone' | 'card';
+
+// Evidence of the consent given for storing contact details
+export interface ConsentRecord {
+  // The checkbox text exactly as shown, in the form's locale
+  text: string;
+  policyVersion: string;
+  policyUrl?: string;
+  // When the box was ticked
+  givenAt: string;
+}
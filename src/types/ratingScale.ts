@@ -0,0 +1,24 @@
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+
+// Semantic colour of an option; each theme maps tones to its own rating tokens
+export type RatingTone = 'negative' | 'poor' | 'neutral' | 'good' | 'positive' | 'star';
+
+export interface RatingOption {
+  value: number;
+  // Message key or literal text
+  label: string;
+  // Options without an icon render their value as text (e.g. NPS 0–10)
+  icon?: IconDefinition;
+  iconSize?: string;
+  tone: RatingTone;
+}
+
+export interface RatingScale {
+  id: string;
+  options: RatingOption[];
+  // Star-style scales light up every option up to the active one
+  cumulative?: boolean;
+  // Captions shown under the first and last option, e.g. "Not likely" / "Very likely"
+  minLabel?: string;
+  maxLabel?: string;
+}
@@ -0,0 +1,11 @@
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SentimentResult {
+  // Sum of word valences after negation and intensifier handling
+  score: number;
+  // Score normalised to -1 … +1
+  polarity: number;
+  label: SentimentLabel;
+  positiveTerms: string[];
+  negativeTerms: string[];
+}
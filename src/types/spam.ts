@@ -0,0 +1,19 @@
+export type SpamSignal = 'honeypot' | 'too-fast' | 'rate-limited' | 'duplicate' | 'challenge-failed';
+
+export interface ChallengeResult {
+  passed: boolean;
+  // Opaque proof for the receiver to re-check, e.g. a proof-of-work nonce or captcha token
+  token?: string;
+}
+
+export interface SpamAssessment {
+  // 0 (clean) … 1 (almost certainly automated); receivers decide what to do with it
+  score: number;
+  signals: SpamSignal[];
+  timeToSubmitMs: number;
+  honeypotFilled: boolean;
+  // Submissions from this browser inside the rate-limit window, including this one
+  recentSubmissions: number;
+  duplicateOf?: string;
+  challenge?: ChallengeResult;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { matchesAccept, readAttachments } from './attachments';
+import { serializeFields } from './formSchema';
+import { createValidationEngine } from '../validation';
+import { formAdapter, webhookAdapter } from '../delivery';
+import { createTranslator } from '../i18n';
+import type { FeedbackData } from '../types/feedback';
+import type { FormField } from '../types/formSchema';
+
+const t = createTranslator('en');
+
+const FILES: FormField = {
+  id: 'files',
+  type: 'file',
+  label: 'Files',
+  validation: { accept: ['image/*', '.pdf'], maxFileSize: 1024, maxFiles: 2 }
+};
+
+const file = (name: string, type: string, size: number): File => new File(['x'.repeat(size)], name, { type });
+
+describe('matchesAccept', () => {
+  it('matches extensions, exact types and wildcards like the accept attribute', () => {
+    expect(matchesAccept({ name: 'shot.PNG', type: 'image/png' }, ['image/*'])).toBe(true);
+    expect(matchesAccept({ name: 'invoice.pdf', type: '' }, ['.pdf'])).toBe(true);
+    expect(matchesAccept({ name: 'notes.txt', type: 'text/plain' }, ['image/*', '.pdf'])).toBe(false);
+    expect(matchesAccept({ name: 'notes.txt', type: 'text/plain' }, undefined)).toBe(true);
+  });
+});
+
+describe('readAttachments', () => {
+  it('reads accepted files and lists refused ones without their content', async () => {
+    const [pdf, text, large] = await readAttachments(
+      [file('invoice.pdf', 'application/pdf', 3), file('notes.txt', 'text/plain', 3), file('', 'image/gif', 2048)],
+      FILES
+    );
+
+    expect(pdf).toMatchObject({ name: 'invoice.pdf', size: 3, data: btoa('xxx') });
+    expect(text).toMatchObject({ name: 'notes.txt', data: '' });
+    expect(large).toMatchObject({ name: 'screenshot.gif', size: 2048, data: '' });
+  });
+
+  it('feeds the file rules of the validation engine', async () => {
+    const engine = createValidationEngine();
+    const validate = async (files: File[]) => engine.validateField(FILES, { files: await readAttachments(files, FILES) }, null, t);
+
+    expect(await validate([file('notes.txt', 'text/plain', 3)])).toBe('notes.txt is not a supported file type');
+    expect(await validate([file('big.pdf', 'application/pdf', 2048)])).toMatch(/^big\.pdf is larger than 1/);
+    expect(await validate([1, 2, 3].map((n) => file(`${n}.pdf`, 'application/pdf', 1)))).toBe('Attach at most 2 files');
+    expect(await validate([file('ok.pdf', 'application/pdf', 1)])).toBeUndefined();
+  });
+
+  it('lists files the browser fails to read instead of rejecting', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(FileReader.prototype, 'readAsDataURL').mockImplementation(function (this: FileReader) {
+      this.onerror?.(new ProgressEvent('error') as ProgressEvent<FileReader>);
+    });
+    const files = await readAttachments([file('moved.pdf', 'application/pdf', 3)], FILES);
+
+    expect(files).toEqual([expect.objectContaining({ name: 'moved.pdf', data: '', unreadable: true })]);
+    expect(createValidationEngine().validateField(FILES, { files }, null, t)).toBe(
+      'moved.pdf could not be read. Please remove it and add it again'
+    );
+    vi.restoreAllMocks();
+  });
+});
+
+describe('attachment delivery', () => {
+  const payload = async (): Promise<FeedbackData> => {
+    const values = { files: await readAttachments([file('invoice.pdf', 'application/pdf', 3)], FILES) };
+    return { ...serializeFields({ fields: [FILES] }, values, 3), submissionId: 'abc' } as FeedbackData;
+  };
+
+  it('keeps base64 content in the JSON by default', async () => {
+    const data = await payload();
+    const request = webhookAdapter.encode(data);
+
+    expect(JSON.parse(request.body as string).attachments).toEqual([
+      expect.objectContaining({ fieldId: 'files', name: 'invoice.pdf', data: btoa('xxx') })
+    ]);
+  });
+
+  it('moves file content to named parts and signs the JSON part for multipart', async () => {
+    const data = await payload();
+    const request = webhookAdapter.encode(data, { attachmentEncoding: 'multipart' });
+    if (!('signedContent' in request)) {
+      throw new Error('Expected a multipart request');
+    }
+    const [attachment] = JSON.parse(request.signedContent).attachments;
+
+    expect(request.headers).toEqual({});
+    expect(request.body.get('payload')).toBe(request.signedContent);
+    expect(attachment).not.toHaveProperty('data');
+    expect(request.body.get(attachment.part)).toMatchObject({ name: 'invoice.pdf', type: 'application/pdf', size: 3 });
+
+    const form = formAdapter.encode(data, { attachmentEncoding: 'multipart' });
+    expect(form.body instanceof FormData && form.body.get('attachments[][part]')).toBe(`attachments[${attachment.id}]`);
+  });
+});
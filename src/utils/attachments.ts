@@ -0,0 +1,136 @@
+import type { Attachment } from '../types/attachment';
+import type { FieldValue, FormField } from '../types/formSchema';
+import { createSubmissionId } from './submissionQueue';
+
+// Used when a file field sets no limits of its own. Attachments travel inside the JSON payload and the retry
+// queue in localStorage, so the defaults stay small.
+// Base64 adds a third, and a response that has to be retried is kept in localStorage (about 5 MB per origin)
+// until it is delivered: the defaults keep a full field around 2 MB there
+export const DEFAULT_MAX_FILE_SIZE = 512 * 1024;
+export const DEFAULT_MAX_FILES = 3;
+export const DEFAULT_DOWNSCALE = { maxDimension: 1600, quality: 0.85 };
+
+// Formats canvas can re-encode; GIF and SVG are attached as picked
+const DOWNSCALABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const isAttachment = (value: unknown): value is Attachment =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as Attachment).id === 'string' &&
+  typeof (value as Attachment).name === 'string' &&
+  typeof (value as Attachment).type === 'string' &&
+  typeof (value as Attachment).size === 'number' &&
+  typeof (value as Attachment).data === 'string';
+
+export const isAttachmentList = (value: FieldValue | undefined): value is Attachment[] =>
+  Array.isArray(value) && value.every((item: unknown) => isAttachment(item));
+
+// Checkbox group values; file field values are lists too, but of attachments
+export const isStringList = (value: FieldValue | undefined): value is string[] =>
+  Array.isArray(value) && value.every((item: unknown) => typeof item === 'string');
+
+// Same syntax as the <input accept> attribute: ".pdf", "image/png" or "image/*"
+export const matchesAccept = (file: Pick<Attachment, 'name' | 'type'>, accept: string[] | undefined): boolean =>
+  !accept || accept.length === 0 || accept.some((pattern) => {
+    const rule = pattern.trim().toLowerCase();
+    if (rule.startsWith('.')) {
+      return file.name.toLowerCase().endsWith(rule);
+    }
+    if (rule.endsWith('/*')) {
+      return file.type.toLowerCase().startsWith(rule.slice(0, -1));
+    }
+    return file.type.toLowerCase() === rule;
+  });
+
+export const formatFileSize = (bytes: number): string => {
+  const [value, unit] = bytes >= 1024 * 1024 ? [bytes / (1024 * 1024), 'megabyte'] : [bytes / 1024, 'kilobyte'];
+  return new Intl.NumberFormat(undefined, { style: 'unit', unit, maximumFractionDigits: 1 }).format(value);
+};
+
+const readAsBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+interface PreparedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Falls back to the original file where createImageBitmap or canvas encoding is unavailable
+const downscaleImage = async (
+  file: File,
+  { maxDimension, quality = DEFAULT_DOWNSCALE.quality }: { maxDimension: number; quality?: number }
+): Promise<PreparedImage | null> => {
+  if (typeof createImageBitmap !== 'function') {
+    return null;
+  }
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    if (scale === 1) {
+      bitmap.close();
+      return { blob: file, width, height };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, file.type, quality));
+    return blob ? { blob, width, height } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads picked, dropped or pasted files for a file field. Files of a refused type, and files other than
+// downscalable images that are over the size limit, are not read: they are added with empty `data` so the
+// field's validation can name them. Never rejects: a file the browser fails to read is marked `unreadable`.
+export const readAttachments = async (files: File[], field: FormField): Promise<Attachment[]> => {
+  const maxFileSize = field.validation?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const downscale = field.downscale === false ? null : field.downscale ?? DEFAULT_DOWNSCALE;
+
+  return Promise.all(files.map(async (file): Promise<Attachment> => {
+    // Pasted screenshots arrive as "image.png"; the browser may leave `name` empty for clipboard data
+    const name = file.name || `screenshot.${file.type.split('/')[1] ?? 'png'}`;
+    const base = { id: createSubmissionId(), name, type: file.type, size: file.size, data: '' };
+    if (!matchesAccept(base, field.validation?.accept)) {
+      return base;
+    }
+    try {
+      const image = downscale && DOWNSCALABLE_TYPES.includes(file.type) ? await downscaleImage(file, downscale) : null;
+      const blob = image?.blob ?? file;
+      if (blob.size > maxFileSize) {
+        return { ...base, size: blob.size };
+      }
+      return {
+        ...base,
+        size: blob.size,
+        ...(image ? { width: image.width, height: image.height } : {}),
+        data: await readAsBase64(blob)
+      };
+    } catch (error) {
+      // Files removed or changed on disk since they were picked, or blocked by the browser
+      console.warn(`Unable to read "${name}":`, error);
+      return { ...base, unreadable: true };
+    }
+  }));
+};
+
+export const attachmentToBlob = (attachment: Pick<Attachment, 'data' | 'type'>): Blob => {
+  const binary = atob(attachment.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return new Blob([bytes], { type: attachment.type || 'application/octet-stream' });
+};
+
+export const attachmentDataUrl = (attachment: Pick<Attachment, 'data' | 'type'>): string =>
+  `data:${attachment.type};base64,${attachment.data}`;
@@ -0,0 +1,26 @@
+import type { FormSchema, RatingBranch } from '../types/formSchema';
+
+export const getRatingBranch = (
+  schema: FormSchema,
+  scaleId: string,
+  rating: number | null
+): RatingBranch | undefined =>
+  rating === null
+    ? undefined
+    : schema.branches?.find(
+      (branch) => (branch.scale === undefined || branch.scale === scaleId) && branch.ratings.includes(rating)
+    );
+
+// The schema as the respondent sees it for this rating: branch overrides merged in and
+// fields that belong to other branches removed, so validation and serialization ignore them too
+export const applyRatingBranch = (schema: FormSchema, scaleId: string, rating: number | null): FormSchema => {
+  const branch = getRatingBranch(schema, scaleId, rating);
+  const overrides = branch?.overrides ?? {};
+
+  return {
+    ...schema,
+    fields: schema.fields
+      .filter((field) => !field.branches || (branch !== undefined && field.branches.includes(branch.id)))
+      .map((field) => (overrides[field.id] ? { ...field, ...overrides[field.id] } : field))
+  };
+};
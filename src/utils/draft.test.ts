@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { FormSchema } from '../types/formSchema';
+import { clearDraft, isDraftEmpty, loadDraft, saveDraft } from './draft';
+
+const schema: FormSchema = {
+  fields: [
+    { id: 'feedback', type: 'textarea', label: 'Feedback' },
+    { id: 'name', type: 'text', label: 'Name', personal: true },
+    { id: 'email', type: 'email', label: 'Email' },
+    { id: 'photo', type: 'file', label: 'Photo' }
+  ]
+};
+const NOW = Date.UTC(2026, 2, 2, 10, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+const draft = {
+  ratingScale: 'csat-5',
+  rating: 4,
+  values: { feedback: 'Nice', name: 'Ada', email: 'ada@example.com', photo: [{ id: 'f1', name: 'a.png', type: 'image/png', size: 3, data: 'AAAA' }] },
+  touched: { feedback: true, name: true, email: true, photo: true }
+};
+
+describe('saveDraft and loadDraft', () => {
+  it('round-trips a draft without its files', () => {
+    saveDraft('checkout', schema, draft, {}, NOW);
+
+    expect(loadDraft('checkout', HOUR, NOW)).toEqual({
+      ...draft,
+      values: { feedback: 'Nice', name: 'Ada', email: 'ada@example.com' },
+      touched: { feedback: true, name: true, email: true },
+      savedAt: NOW
+    });
+    expect(loadDraft('other-form', HOUR, NOW)).toBeNull();
+  });
+
+  it('leaves personal fields out of storage when asked to', () => {
+    saveDraft('checkout', schema, draft, { excludePersonalData: true }, NOW);
+    const stored = window.localStorage.getItem('sentiment-form:draft:checkout') ?? '';
+
+    expect(stored).not.toContain('Ada');
+    expect(stored).not.toContain('ada@example.com');
+    expect(loadDraft('checkout', HOUR, NOW)?.touched).toEqual({ feedback: true });
+  });
+
+  it('discards expired and unreadable drafts', () => {
+    saveDraft('checkout', schema, draft, {}, NOW);
+    expect(loadDraft('checkout', HOUR, NOW + HOUR)).not.toBeNull();
+    expect(loadDraft('checkout', HOUR, NOW + HOUR + 1)).toBeNull();
+    expect(window.localStorage.getItem('sentiment-form:draft:checkout')).toBeNull();
+
+    window.localStorage.setItem('sentiment-form:draft:checkout', JSON.stringify({ values: 'broken' }));
+    expect(loadDraft('checkout', HOUR, NOW)).toBeNull();
+    expect(window.localStorage.getItem('sentiment-form:draft:checkout')).toBeNull();
+  });
+
+  it('clears a stored draft', () => {
+    saveDraft('checkout', schema, draft, {}, NOW);
+    clearDraft('checkout');
+
+    expect(loadDraft('checkout', HOUR, NOW)).toBeNull();
+  });
+});
+
+describe('isDraftEmpty', () => {
+  it('is empty until a rating is picked or a field is filled', () => {
+    expect(isDraftEmpty(schema, null, { feedback: '  ', name: '' })).toBe(true);
+    expect(isDraftEmpty(schema, 3, {})).toBe(false);
+    expect(isDraftEmpty(schema, null, { feedback: 'Nice' })).toBe(false);
+  });
+});
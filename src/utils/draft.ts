@@ -0,0 +1,71 @@
+import type { FormSchema } from '../types/formSchema';
+import { isFieldFilled, isPersonalField, type FieldValues } from './formSchema';
+import { readJSON, removeItem, writeJSON } from './storage';
+
+export interface DraftOptions {
+  // Drafts older than this are discarded instead of offered back; defaults to seven days
+  ttlMs?: number;
+  // Privacy setting: never write personal fields (name, email, ...) to the device
+  excludePersonalData?: boolean;
+  // Separates drafts of different forms on the same origin; defaults to the rating scale id
+  key?: string;
+}
+
+export interface FormDraft {
+  savedAt: number;
+  ratingScale: string;
+  rating: number | null;
+  values: FieldValues;
+  touched: Record<string, boolean>;
+}
+
+export const DEFAULT_DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DRAFT_KEY_PREFIX = 'sentiment-form:draft:';
+
+const storageKey = (key: string): string => `${DRAFT_KEY_PREFIX}${key}`;
+
+const isFormDraft = (value: unknown): value is FormDraft =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as FormDraft).savedAt === 'number' &&
+  typeof (value as FormDraft).values === 'object' && (value as FormDraft).values !== null;
+
+export const isDraftEmpty = (schema: FormSchema, rating: number | null, values: FieldValues): boolean =>
+  rating === null && !schema.fields.some((field) => isFieldFilled(field, values));
+
+// Returns the stored draft unless it is missing, corrupt or expired; stale drafts are removed on the way
+export const loadDraft = (key: string, ttlMs = DEFAULT_DRAFT_TTL_MS, now: number = Date.now()): FormDraft | null => {
+  const draft = readJSON<unknown>(storageKey(key), null);
+  if (isFormDraft(draft) && now - draft.savedAt <= ttlMs) {
+    return draft;
+  }
+  if (draft !== null) {
+    removeItem(storageKey(key));
+  }
+  return null;
+};
+
+export const saveDraft = (
+  key: string,
+  schema: FormSchema,
+  draft: Omit<FormDraft, 'savedAt'>,
+  options: Pick<DraftOptions, 'excludePersonalData'> = {},
+  now: number = Date.now()
+): void => {
+  // Attachments are never kept: files would quickly fill the storage quota
+  const excluded = new Set(
+    schema.fields
+      .filter((field) => field.type === 'file' || (options.excludePersonalData && isPersonalField(field)))
+      .map((field) => field.id)
+  );
+  const keep = ([id]: [string, unknown]) => !excluded.has(id);
+
+  writeJSON(storageKey(key), {
+    ...draft,
+    values: Object.fromEntries(Object.entries(draft.values).filter(keep)),
+    touched: Object.fromEntries(Object.entries(draft.touched).filter(keep)),
+    savedAt: now
+  } satisfies FormDraft);
+};
+
+export const clearDraft = (key: string): void => removeItem(storageKey(key));
@@ -0,0 +1,119 @@
+import type { FieldValue, FormField, FormSchema, VisibilityCondition } from '../types/formSchema';
+import type { FeedbackAttachment } from '../types/attachment';
+import { isAttachmentList, isStringList } from './attachments';
+
+export type FieldValues = Record<string, FieldValue>;
+
+// Visibility conditions can refer to the selected rating under this key
+export const RATING_FIELD = 'rating';
+
+// Schema ids that map onto the top-level FeedbackData properties instead of `answers`
+const CORE_FIELD_IDS = ['feedback', 'name', 'email'] as const;
+
+const emptyValue = (field: FormField): FieldValue => {
+  switch (field.type) {
+    case 'checkbox':
+      return false;
+    case 'checkboxGroup':
+    case 'file':
+      return [];
+    default:
+      return '';
+  }
+};
+
+export const getInitialValues = (schema: FormSchema): FieldValues =>
+  Object.fromEntries(schema.fields.map((field) => [field.id, emptyValue(field)]));
+
+// Guards values that come from outside the form, such as a restored draft
+export const isValueForField = (field: FormField, value: unknown): value is FieldValue => {
+  switch (field.type) {
+    case 'checkbox':
+      return typeof value === 'boolean';
+    case 'checkboxGroup':
+      return isStringList(value as FieldValue);
+    case 'file':
+      return isAttachmentList(value as FieldValue);
+    default:
+      return typeof value === 'string';
+  }
+};
+
+const isFilled = (value: FieldValue | number | null | undefined): boolean => {
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== null && value !== undefined;
+};
+
+export const isPersonalField = (field: FormField): boolean => field.personal ?? field.type === 'email';
+
+export const isFieldFilled = (field: FormField, values: FieldValues): boolean =>
+  isFilled(values[field.id]);
+
+const matchesCondition = (
+  condition: VisibilityCondition,
+  values: FieldValues,
+  rating: number | null
+): boolean => {
+  const value = condition.field === RATING_FIELD ? rating : values[condition.field];
+
+  if ('filled' in condition) {
+    return isFilled(value) === condition.filled;
+  }
+  if (Array.isArray(value)) {
+    if (!isStringList(value)) {
+      return false;
+    }
+    return 'equals' in condition
+      ? value.includes(condition.equals as string)
+      : value.some((item) => condition.in.includes(item));
+  }
+  if ('equals' in condition) {
+    return value === condition.equals;
+  }
+  return value !== null && value !== undefined && condition.in.includes(value);
+};
+
+export const isFieldVisible = (field: FormField, values: FieldValues, rating: number | null): boolean =>
+  (field.visibleWhen ?? []).every((condition) => matchesCondition(condition, values, rating));
+
+export const getVisibleFields = (schema: FormSchema, values: FieldValues, rating: number | null): FormField[] =>
+  schema.fields.filter((field) => isFieldVisible(field, values, rating));
+
+export interface SerializedFields {
+  feedback: string;
+  name: string;
+  email: string;
+  answers: FieldValues;
+  attachments: FeedbackAttachment[];
+}
+
+export const serializeFields = (schema: FormSchema, values: FieldValues, rating: number | null): SerializedFields => {
+  const serialized: SerializedFields = { feedback: '', name: '', email: '', answers: {}, attachments: [] };
+
+  for (const field of getVisibleFields(schema, values, rating)) {
+    const raw = values[field.id];
+    // Files go into `attachments`, so `answers` stays small enough to read at a glance
+    if (field.type === 'file') {
+      if (isAttachmentList(raw)) {
+        serialized.attachments.push(...raw.map((attachment) => ({ ...attachment, fieldId: field.id })));
+      }
+      continue;
+    }
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+
+    if ((CORE_FIELD_IDS as readonly string[]).includes(field.id) && typeof value === 'string') {
+      serialized[field.id as typeof CORE_FIELD_IDS[number]] = value;
+    } else {
+      serialized.answers[field.id] = value;
+    }
+  }
+  return serialized;
+};
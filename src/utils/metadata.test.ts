@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { collectContext, collectMetadata, rememberCampaign } from './metadata';
+import { FEEDBACK_SCHEMA_VERSION, validateFeedbackData } from './validateFeedbackData';
+
+afterEach(() => window.sessionStorage.clear());
+
+describe('rememberCampaign', () => {
+  it('keeps the landing page campaign for the rest of the session', () => {
+    expect(rememberCampaign('?utm_source=newsletter&utm_campaign=spring&ref=x')).toEqual({
+      source: 'newsletter',
+      campaign: 'spring'
+    });
+    expect(rememberCampaign('')).toEqual({ source: 'newsletter', campaign: 'spring' });
+    expect(rememberCampaign('?utm_source=ads')).toEqual({ source: 'ads' });
+  });
+});
+
+describe('collectContext', () => {
+  it('copies listed or renamed query parameters and lets host values win', () => {
+    const search = '?order=A-1&sku=TSHIRT&user=42';
+    expect(collectContext({ user: 7 }, ['sku', 'user'], search)).toEqual({ sku: 'TSHIRT', user: '7' });
+    expect(collectContext({}, { order: 'orderId' }, search)).toEqual({ orderId: 'A-1' });
+  });
+});
+
+describe('collectMetadata', () => {
+  it('reuses the session id and leaves out what the deployment turned off', () => {
+    const first = collectMetadata({}, 1000, 4500);
+    const second = collectMetadata({ collect: { device: false, pageUrl: false, sessionId: false } }, 1000, 2000);
+
+    expect(first.timeToCompleteMs).toBe(3500);
+    expect(first.sessionId).toEqual(expect.any(String));
+    expect(collectMetadata({}, 0).sessionId).toBe(first.sessionId);
+    expect(first.device?.type).toBe('desktop');
+    expect(second).toMatchObject({ device: null, pageUrl: null, sessionId: null, timeToCompleteMs: 1000 });
+  });
+
+  it('produces metadata the payload validator accepts', () => {
+    const problems = validateFeedbackData({
+      schemaVersion: FEEDBACK_SCHEMA_VERSION,
+      submissionId: 'id',
+      rating: 3,
+      ratingLabel: 'Satisfied',
+      ratingScale: 'emoji-3',
+      branch: null,
+      feedback: 'Great',
+      name: '',
+      email: '',
+      consent: null,
+      redactions: {},
+      answers: {},
+      attachments: [],
+      sentiment: { score: 3, polarity: 1, label: 'positive', positiveTerms: ['great'], negativeTerms: [] },
+      sentimentMismatch: false,
+      locale: 'en',
+      spam: { score: 0, signals: [], timeToSubmitMs: 5000, honeypotFilled: false, recentSubmissions: 1 },
+      metadata: collectMetadata({}, 0),
+      context: collectContext({ orderId: 'A-1' }),
+      timestamp: new Date().toISOString()
+    });
+    expect(problems).toEqual([]);
+  });
+});
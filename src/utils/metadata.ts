@@ -0,0 +1,128 @@
+import type { DeviceInfo, DeviceType, SubmissionMetadata, UtmParameter } from '../types/metadata';
+import { createSubmissionId } from './submissionQueue';
+
+export type MetadataField = 'pageUrl' | 'referrer' | 'utm' | 'device' | 'timeZone' | 'sessionId';
+
+export type ContextValue = string | number | boolean;
+
+export interface MetadataOptions {
+  // Automatic fields to leave out, e.g. { device: false }; everything is collected by default
+  collect?: Partial<Record<MetadataField, boolean>>;
+  // Query parameters copied into `context`: a list keeps their names, a map renames them ({ order: 'orderId' })
+  contextParams?: string[] | Record<string, string>;
+}
+
+const UTM_PARAMETERS: UtmParameter[] = ['source', 'medium', 'campaign', 'term', 'content'];
+const UTM_STORAGE_KEY = 'sentiment-form:utm';
+const SESSION_STORAGE_KEY = 'sentiment-form:session';
+
+// sessionStorage can throw in sandboxed frames and some private modes; metadata is best effort
+const readSession = (key: string): string | null => {
+  try {
+    return window.sessionStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (key: string, value: string): void => {
+  try {
+    window.sessionStorage.setItem(key, value);
+  } catch {
+    // Not persisted: the value still applies to this submission
+  }
+};
+
+const getSessionId = (): string => {
+  const existing = readSession(SESSION_STORAGE_KEY);
+  if (existing) {
+    return existing;
+  }
+  const created = createSubmissionId();
+  writeSession(SESSION_STORAGE_KEY, created);
+  return created;
+};
+
+const readUtmFromUrl = (search: string): SubmissionMetadata['utm'] => {
+  const params = new URLSearchParams(search);
+  return Object.fromEntries(
+    UTM_PARAMETERS.flatMap((name) => {
+      const value = params.get(`utm_${name}`);
+      return value ? [[name, value]] : [];
+    })
+  );
+};
+
+// The landing URL's campaign wins for the whole session, so client-side navigation does not lose attribution
+export const rememberCampaign = (search: string = window.location.search): SubmissionMetadata['utm'] => {
+  const fromUrl = readUtmFromUrl(search);
+  if (Object.keys(fromUrl).length > 0) {
+    writeSession(UTM_STORAGE_KEY, JSON.stringify(fromUrl));
+    return fromUrl;
+  }
+  try {
+    return JSON.parse(readSession(UTM_STORAGE_KEY) ?? '{}') as SubmissionMetadata['utm'];
+  } catch {
+    return {};
+  }
+};
+
+const getDeviceType = (width: number, touch: boolean): DeviceType => {
+  if (touch && width < 768) {
+    return 'mobile';
+  }
+  return touch && width < 1280 ? 'tablet' : 'desktop';
+};
+
+const getDeviceInfo = (): DeviceInfo => {
+  const touch = window.matchMedia?.('(pointer: coarse)').matches ?? false;
+  return {
+    type: getDeviceType(window.innerWidth, touch),
+    userAgent: navigator.userAgent,
+    viewportWidth: window.innerWidth,
+    viewportHeight: window.innerHeight,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    pixelRatio: window.devicePixelRatio,
+    touch
+  };
+};
+
+// Hash fragments often hold tokens or app state, so the page URL stops at the query string
+const withoutHash = (url: string): string => url.split('#')[0];
+
+export const collectMetadata = (
+  options: MetadataOptions = {},
+  startedAt: number,
+  now: number = Date.now()
+): SubmissionMetadata => {
+  const collects = (field: MetadataField): boolean => options.collect?.[field] !== false;
+  return {
+    pageUrl: collects('pageUrl') ? withoutHash(window.location.href) : null,
+    referrer: collects('referrer') && document.referrer ? document.referrer : null,
+    utm: collects('utm') ? rememberCampaign() : {},
+    device: collects('device') ? getDeviceInfo() : null,
+    timeZone: collects('timeZone') ? Intl.DateTimeFormat().resolvedOptions().timeZone ?? null : null,
+    timeToCompleteMs: Math.max(0, now - startedAt),
+    sessionId: collects('sessionId') ? getSessionId() : null
+  };
+};
+
+// URL parameters first, then the host's own values, which win on conflicts; everything is sent as strings
+export const collectContext = (
+  context: Record<string, ContextValue> = {},
+  contextParams: MetadataOptions['contextParams'] = [],
+  search: string = window.location.search
+): Record<string, string> => {
+  const params = new URLSearchParams(search);
+  const mapping = Array.isArray(contextParams)
+    ? Object.fromEntries(contextParams.map((name) => [name, name]))
+    : contextParams;
+
+  const fromUrl = Object.entries(mapping).flatMap(([param, key]) => {
+    const value = params.get(param);
+    return value !== null ? [[key, value]] : [];
+  });
+  const fromHost = Object.entries(context).map(([key, value]) => [key, String(value)]);
+  return Object.fromEntries([...fromUrl, ...fromHost]);
+};
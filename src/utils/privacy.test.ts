@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { applyAnonymity, redactText, resolveRedactionKinds } from './privacy';
+import { DEFAULT_FORM_SCHEMA } from '../config/defaultFormSchema';
+
+describe('redactText', () => {
+  const all = resolveRedactionKinds(true);
+
+  it('masks emails, phone numbers and card numbers and counts them', () => {
+    expect(redactText('Reach me at ada@example.co.uk or +44 20 7946 0958, card 4111 1111 1111 1111', all)).toEqual({
+      text: 'Reach me at [email] or [phone], card [card]',
+      counts: { email: 1, phone: 1, card: 1 }
+    });
+  });
+
+  it('leaves dates, prices and short numbers alone', () => {
+    const text = 'Ordered 2024-05-01 for 1,299.99, ticket 12345';
+    expect(redactText(text, all)).toEqual({ text, counts: {} });
+  });
+
+  it('only masks the requested kinds', () => {
+    expect(redactText('ada@example.com, 555-123-4567', ['phone']).text).toBe('ada@example.com, [phone]');
+    expect(redactText('ada@example.com', resolveRedactionKinds(false)).text).toBe('ada@example.com');
+  });
+});
+
+describe('applyAnonymity', () => {
+  const personal = (mode: Parameters<typeof applyAnonymity>[1]) =>
+    applyAnonymity(DEFAULT_FORM_SCHEMA, mode).fields
+      .filter((field) => field.id === 'name' || field.id === 'email')
+      .map((field) => [field.id, field.required]);
+
+  it('keeps, relaxes or removes the contact fields', () => {
+    expect(personal('required')).toEqual([['name', true], ['email', true]]);
+    expect(personal('optional')).toEqual([['name', false], ['email', false]]);
+    expect(personal('hidden')).toEqual([]);
+  });
+});
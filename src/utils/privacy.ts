@@ -0,0 +1,89 @@
+import type { FormSchema } from '../types/formSchema';
+import type { ConsentRecord, RedactionKind } from '../types/privacy';
+import { isPersonalField } from './formSchema';
+
+// "required" keeps the schema's own rules; "optional" stops contact fields being required; "hidden" removes them
+export type AnonymityMode = 'required' | 'optional' | 'hidden';
+
+export interface ConsentOptions {
+  // Message key or literal text shown next to the checkbox
+  text?: string;
+  // Recorded with the consent so it can be matched to the policy the respondent agreed to
+  policyVersion: string;
+  policyUrl?: string;
+}
+
+export interface PrivacyOptions {
+  anonymity?: AnonymityMode;
+  // Asks for consent whenever contact details are entered and refuses to submit them without it
+  consent?: ConsentOptions;
+  // Masks these kinds of personal data in the free-text feedback before submission; `true` masks all of them
+  redact?: boolean | RedactionKind[];
+}
+
+const REDACTION_KINDS: RedactionKind[] = ['email', 'card', 'phone'];
+
+export const resolveRedactionKinds = (redact: PrivacyOptions['redact']): RedactionKind[] =>
+  redact === true ? REDACTION_KINDS : redact || [];
+
+// Contact fields are the schema's personal fields: `personal: true`, and email fields unless they opt out
+export const applyAnonymity = (schema: FormSchema, mode: AnonymityMode = 'required'): FormSchema => {
+  if (mode === 'required') {
+    return schema;
+  }
+  const fields = mode === 'hidden'
+    ? schema.fields.filter((field) => !isPersonalField(field))
+    : schema.fields.map((field) => (isPersonalField(field) ? { ...field, required: false } : field));
+  return { ...schema, fields };
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// A digit run with the separators people type into phone and card numbers
+const NUMBER_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/g;
+const DATE_PATTERN = /^\d{4}[-./]\d{1,2}[-./]\d{1,2}$|^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/;
+
+const REPLACEMENTS: Record<RedactionKind, string> = {
+  email: '[email]',
+  phone: '[phone]',
+  card: '[card]'
+};
+
+const classifyNumber = (candidate: string): RedactionKind | null => {
+  const digits = candidate.replace(/\D/g, '').length;
+  if (digits >= 13 && digits <= 19 && /^[\d -]+$/.test(candidate)) {
+    return 'card';
+  }
+  if (digits >= 7 && digits <= 15 && !DATE_PATTERN.test(candidate)) {
+    return 'phone';
+  }
+  return null;
+};
+
+export interface RedactionResult {
+  text: string;
+  // How many values of each kind were masked
+  counts: Partial<Record<RedactionKind, number>>;
+}
+
+// Deliberately greedy: an order number that looks like a phone number is masked too
+export const redactText = (text: string, kinds: readonly RedactionKind[]): RedactionResult => {
+  const counts: RedactionResult['counts'] = {};
+  const count = (kind: RedactionKind): string => {
+    counts[kind] = (counts[kind] ?? 0) + 1;
+    return REPLACEMENTS[kind];
+  };
+
+  let redacted = kinds.includes('email') ? text.replace(EMAIL_PATTERN, () => count('email')) : text;
+  redacted = redacted.replace(NUMBER_PATTERN, (candidate) => {
+    const kind = classifyNumber(candidate.trim());
+    return kind && kinds.includes(kind) ? count(kind) : candidate;
+  });
+  return { text: redacted, counts };
+};
+
+export const createConsentRecord = (options: ConsentOptions, text: string, givenAt: number): ConsentRecord => ({
+  text,
+  policyVersion: options.policyVersion,
+  ...(options.policyUrl ? { policyUrl: options.policyUrl } : {}),
+  givenAt: new Date(givenAt).toISOString()
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CSAT_SCALE } from '../config/ratingScales';
+import { analyzeSentiment, isSentimentMismatch, MISMATCH_THRESHOLD, ratingToPolarity } from './sentiment';
+
+describe('analyzeSentiment', () => {
+  it('scores lexicon words and labels the polarity', () => {
+    expect(analyzeSentiment('Good')).toMatchObject({ score: 3, label: 'positive', positiveTerms: ['good'] });
+    expect(analyzeSentiment('The parcel arrived on Tuesday')).toMatchObject({ score: 0, polarity: 0, label: 'neutral' });
+  });
+
+  it('flips and dampens words within three tokens of a negation', () => {
+    expect(analyzeSentiment('not good')).toMatchObject({ score: -2.25, label: 'negative', negativeTerms: ['not good'] });
+    expect(analyzeSentiment('It wasn’t bad')).toMatchObject({ score: 2.25, positiveTerms: ['wasnt bad'] });
+    expect(analyzeSentiment('not at all good').score).toBe(-2.25);
+    expect(analyzeSentiment('not in any way good').score).toBe(3);
+  });
+
+  it('applies intensifiers and dampeners to the next sentiment word only', () => {
+    expect(analyzeSentiment('very good').score).toBe(3.9);
+    expect(analyzeSentiment('slightly good').score).toBe(1.8);
+    expect(analyzeSentiment('very good and nice').score).toBe(6.9);
+    expect(analyzeSentiment('not very good').score).toBe(-2.925);
+  });
+
+  it('weights the clause after "but" over the one before it', () => {
+    const result = analyzeSentiment('The food was good but the service was terrible');
+
+    expect(result.score).toBe(-3);
+    expect(result.label).toBe('negative');
+    expect(result).toMatchObject({ positiveTerms: ['good'], negativeTerms: ['terrible'] });
+    expect(analyzeSentiment('Terrible wait, but the staff were great').label).toBe('positive');
+  });
+
+  it('boosts the score for up to four exclamation marks', () => {
+    expect(analyzeSentiment('good!!').score).toBe(3.6);
+    expect(analyzeSentiment('good!!!!!!').score).toBe(4.2);
+    expect(analyzeSentiment('ok!!!').score).toBe(0);
+  });
+});
+
+describe('isSentimentMismatch', () => {
+  it('flags text and rating that both pass the threshold in opposite directions', () => {
+    const terrible = analyzeSentiment('terrible');
+    const slow = analyzeSentiment('slow');
+
+    expect(ratingToPolarity(CSAT_SCALE, 4)).toBe(MISMATCH_THRESHOLD);
+    expect(isSentimentMismatch(ratingToPolarity(CSAT_SCALE, 5), terrible)).toBe(true);
+    expect(isSentimentMismatch(ratingToPolarity(CSAT_SCALE, 4), terrible)).toBe(true);
+    expect(isSentimentMismatch(ratingToPolarity(CSAT_SCALE, 3), terrible)).toBe(false);
+    expect(isSentimentMismatch(ratingToPolarity(CSAT_SCALE, 1), terrible)).toBe(false);
+    // A mildly negative comment is not a contradiction of a top rating
+    expect(Math.abs(slow.polarity)).toBeLessThan(MISMATCH_THRESHOLD);
+    expect(isSentimentMismatch(ratingToPolarity(CSAT_SCALE, 5), slow)).toBe(false);
+  });
+});
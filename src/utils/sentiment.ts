@@ -0,0 +1,120 @@
+import type { RatingScale } from '../types/ratingScale';
+import type { SentimentLabel, SentimentResult } from '../types/sentiment';
+import { INTENSIFIERS, LEXICON, NEGATIONS } from './sentimentLexicon';
+
+// How many tokens after a negation word are flipped ("not very good", "never really helpful")
+const NEGATION_SCOPE = 3;
+// Negation dampens as well as flips: "not great" is milder than "terrible"
+const NEGATION_FACTOR = -0.75;
+// Clauses after "but" dominate the sentence, as in VADER
+const BEFORE_BUT_FACTOR = 0.5;
+const AFTER_BUT_FACTOR = 1.5;
+const EXCLAMATION_BOOST = 0.3;
+const MAX_EXCLAMATIONS = 4;
+// Normalisation constant from VADER: polarity = score / sqrt(score² + alpha)
+const NORMALIZATION_ALPHA = 15;
+const NEUTRAL_THRESHOLD = 0.05;
+const MAX_TERMS = 5;
+
+// Polarity both the rating and the text must exceed (in opposite directions) to count as a contradiction
+export const MISMATCH_THRESHOLD = 0.5;
+
+const lookup = (table: Record<string, number>, token: string): number | undefined =>
+  Object.prototype.hasOwnProperty.call(table, token) ? table[token] : undefined;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const toLabel = (polarity: number): SentimentLabel => {
+  if (polarity >= NEUTRAL_THRESHOLD) {
+    return 'positive';
+  }
+  if (polarity <= -NEUTRAL_THRESHOLD) {
+    return 'negative';
+  }
+  return 'neutral';
+};
+
+const topTerms = (contributions: Map<string, number>, sign: 1 | -1): string[] =>
+  [...contributions.entries()]
+    .filter(([, value]) => Math.sign(value) === sign)
+    .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+    .slice(0, MAX_TERMS)
+    .map(([term]) => term);
+
+export const analyzeSentiment = (text: string): SentimentResult => {
+  const normalized = text.toLowerCase().replace(/['’]/g, '');
+  const sentences = normalized.split(/[.!?;\n]+/);
+  const contributions = new Map<string, number>();
+  let score = 0;
+
+  for (const sentence of sentences) {
+    const tokens = sentence.split(/[^a-z]+/).filter(Boolean);
+    const butIndex = tokens.lastIndexOf('but');
+    let negation: string | null = null;
+    let negationScope = 0;
+    let multiplier = 1;
+
+    tokens.forEach((token, index) => {
+      if (NEGATIONS.has(token)) {
+        negation = token;
+        negationScope = NEGATION_SCOPE;
+        return;
+      }
+
+      const intensity = lookup(INTENSIFIERS, token);
+      if (intensity !== undefined) {
+        multiplier *= intensity;
+        return;
+      }
+
+      const valence = lookup(LEXICON, token);
+      const isNegated = negationScope > 0;
+      negationScope = Math.max(0, negationScope - 1);
+
+      if (valence === undefined) {
+        return;
+      }
+
+      let value = valence * multiplier;
+      if (isNegated) {
+        value *= NEGATION_FACTOR;
+      }
+      if (butIndex >= 0) {
+        value *= index < butIndex ? BEFORE_BUT_FACTOR : AFTER_BUT_FACTOR;
+      }
+      multiplier = 1;
+
+      const term = isNegated ? `${negation} ${token}` : token;
+      contributions.set(term, (contributions.get(term) ?? 0) + value);
+      score += value;
+    });
+  }
+
+  const exclamations = Math.min(MAX_EXCLAMATIONS, (text.match(/!/g) ?? []).length);
+  if (score !== 0) {
+    score += Math.sign(score) * exclamations * EXCLAMATION_BOOST;
+  }
+
+  const polarity = score / Math.sqrt(score * score + NORMALIZATION_ALPHA);
+
+  return {
+    score: round(score),
+    polarity: round(polarity),
+    label: toLabel(polarity),
+    positiveTerms: topTerms(contributions, 1),
+    negativeTerms: topTerms(contributions, -1)
+  };
+};
+
+// Maps a rating onto -1 … +1 by its position in the scale, so any scale can be compared with text polarity
+export const ratingToPolarity = (scale: RatingScale, value: number): number => {
+  const values = scale.options.map((option) => option.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return max === min ? 0 : ((value - min) / (max - min)) * 2 - 1;
+};
+
+export const isSentimentMismatch = (ratingPolarity: number, sentiment: SentimentResult): boolean =>
+  Math.abs(ratingPolarity) >= MISMATCH_THRESHOLD &&
+  Math.abs(sentiment.polarity) >= MISMATCH_THRESHOLD &&
+  Math.sign(ratingPolarity) !== Math.sign(sentiment.polarity);
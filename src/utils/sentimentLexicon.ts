@@ -0,0 +1,246 @@
+// AFINN-style valence scores (-5 … +5) for words common in service and product feedback.
+// Kept deliberately small and inline so the analyzer works offline with no extra download.
+export const LEXICON: Record<string, number> = {
+  // Positive
+  amazing: 4,
+  awesome: 4,
+  brilliant: 4,
+  excellent: 3,
+  exceptional: 4,
+  fantastic: 4,
+  outstanding: 5,
+  perfect: 3,
+  superb: 5,
+  wonderful: 4,
+  incredible: 4,
+  like: 2,
+  liked: 2,
+  love: 3,
+  loved: 3,
+  loving: 2,
+  lovely: 3,
+  great: 3,
+  good: 3,
+  nice: 3,
+  fine: 2,
+  happy: 3,
+  glad: 3,
+  pleased: 3,
+  satisfied: 2,
+  delighted: 3,
+  enjoy: 2,
+  enjoyed: 2,
+  impressed: 3,
+  impressive: 3,
+  recommend: 2,
+  recommended: 2,
+  helpful: 2,
+  friendly: 2,
+  kind: 2,
+  polite: 2,
+  professional: 2,
+  knowledgeable: 2,
+  patient: 2,
+  fast: 2,
+  quick: 2,
+  quickly: 2,
+  prompt: 2,
+  efficient: 2,
+  easy: 1,
+  easily: 1,
+  simple: 1,
+  smooth: 2,
+  clean: 2,
+  clear: 1,
+  reliable: 2,
+  useful: 2,
+  valuable: 2,
+  worth: 2,
+  best: 3,
+  better: 2,
+  improved: 2,
+  beautiful: 3,
+  comfortable: 2,
+  convenient: 2,
+  responsive: 2,
+  thanks: 2,
+  thank: 2,
+  thankful: 2,
+  grateful: 3,
+  appreciate: 2,
+  appreciated: 2,
+  welcome: 2,
+  welcoming: 2,
+  attentive: 2,
+  caring: 2,
+  fun: 4,
+  exciting: 3,
+  excited: 3,
+  fair: 2,
+  affordable: 2,
+  wow: 4,
+  solved: 2,
+  resolved: 2,
+  works: 1,
+  worked: 1,
+  success: 2,
+  successful: 3,
+  satisfying: 2,
+  seamless: 3,
+  intuitive: 2,
+  top: 2,
+  yes: 1,
+
+  // Negative
+  awful: -3,
+  terrible: -3,
+  horrible: -3,
+  horrendous: -4,
+  atrocious: -4,
+  worst: -3,
+  worse: -3,
+  bad: -3,
+  poor: -2,
+  poorly: -2,
+  disappointing: -2,
+  disappointed: -2,
+  disappointment: -2,
+  unhappy: -2,
+  unsatisfied: -2,
+  dissatisfied: -2,
+  angry: -3,
+  furious: -4,
+  annoyed: -2,
+  annoying: -2,
+  frustrated: -2,
+  frustrating: -2,
+  upset: -2,
+  hate: -3,
+  hated: -3,
+  dislike: -2,
+  disgusting: -3,
+  rude: -2,
+  unhelpful: -2,
+  unprofessional: -2,
+  incompetent: -2,
+  useless: -2,
+  pointless: -2,
+  slow: -2,
+  slowly: -2,
+  late: -1,
+  delay: -1,
+  delayed: -1,
+  waiting: -1,
+  broken: -1,
+  broke: -1,
+  bug: -2,
+  buggy: -2,
+  crash: -2,
+  crashed: -2,
+  crashes: -2,
+  error: -2,
+  errors: -2,
+  fail: -2,
+  failed: -2,
+  failure: -2,
+  fails: -2,
+  problem: -2,
+  problems: -2,
+  issue: -1,
+  issues: -1,
+  complicated: -2,
+  confusing: -2,
+  confused: -2,
+  difficult: -1,
+  hard: -1,
+  expensive: -1,
+  overpriced: -2,
+  ridiculous: -3,
+  unacceptable: -3,
+  waste: -1,
+  wasted: -2,
+  scam: -4,
+  fraud: -4,
+  lie: -2,
+  lied: -2,
+  ignored: -2,
+  careless: -2,
+  dirty: -2,
+  mess: -2,
+  messy: -2,
+  nightmare: -3,
+  pathetic: -2,
+  sucks: -3,
+  sad: -2,
+  sorry: -1,
+  complain: -2,
+  complaint: -2,
+  regret: -2,
+  lost: -3,
+  missing: -2,
+  wrong: -2,
+  unreliable: -2,
+  unusable: -3,
+  cancel: -1,
+  refund: -1,
+  mediocre: -2,
+  meh: -1,
+  boring: -3
+};
+
+// Words that flip the valence of the sentiment words that follow them
+export const NEGATIONS = new Set([
+  'not',
+  'no',
+  'never',
+  'none',
+  'nothing',
+  'nobody',
+  'neither',
+  'nor',
+  'nowhere',
+  'hardly',
+  'barely',
+  'scarcely',
+  'without',
+  'cannot',
+  'cant',
+  'dont',
+  'wont',
+  'isnt',
+  'wasnt',
+  'arent',
+  'werent',
+  'didnt',
+  'doesnt',
+  'havent',
+  'hasnt',
+  'couldnt',
+  'shouldnt',
+  'wouldnt'
+]);
+
+// Multipliers applied to the next sentiment word: > 1 intensifies, < 1 dampens
+export const INTENSIFIERS: Record<string, number> = {
+  absolutely: 1.5,
+  completely: 1.5,
+  extremely: 1.5,
+  incredibly: 1.5,
+  totally: 1.5,
+  utterly: 1.5,
+  very: 1.3,
+  really: 1.3,
+  so: 1.3,
+  super: 1.3,
+  truly: 1.3,
+  highly: 1.3,
+  most: 1.3,
+  too: 1.2,
+  quite: 1.1,
+  pretty: 1.1,
+  fairly: 0.8,
+  somewhat: 0.7,
+  slightly: 0.6,
+  little: 0.7,
+  bit: 0.7
+};
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assessSubmission, createProofOfWorkChallenge, isRateLimited, recordSubmission } from './spamProtection';
+
+const NOW = Date.UTC(2026, 2, 2, 10, 0, 0);
+const MINUTE = 60 * 1000;
+
+const assess = (overrides: Partial<Parameters<typeof assessSubmission>[0]> = {}, options = {}) =>
+  assessSubmission({ submissionId: 'new', text: 'Fast delivery', honeypotValue: '', startedAt: NOW - MINUTE, now: NOW, ...overrides }, options);
+
+describe('assessSubmission', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('passes a human-paced first submission', async () => {
+    expect(await assess()).toEqual({
+      score: 0,
+      signals: [],
+      timeToSubmitMs: MINUTE,
+      honeypotFilled: false,
+      recentSubmissions: 1,
+      duplicateOf: undefined,
+      challenge: undefined
+    });
+  });
+
+  it('flags a filled honeypot only while the honeypot is on', async () => {
+    expect(await assess({ honeypotValue: 'https://spam.test' })).toMatchObject({ signals: ['honeypot'], score: 0.9 });
+    expect(await assess({ honeypotValue: 'https://spam.test' }, { honeypot: false })).toMatchObject({
+      signals: [],
+      honeypotFilled: false
+    });
+  });
+
+  it('flags submissions sent sooner than the minimum time', async () => {
+    expect(await assess({ startedAt: NOW - 2000 })).toMatchObject({ signals: ['too-fast'], score: 0.5 });
+    expect((await assess({ startedAt: NOW - 2000 }, { minTimeToSubmitMs: 1000 })).signals).toEqual([]);
+  });
+
+  it('counts this and recent submissions against the rate limit in either mode', async () => {
+    const rateLimit = { maxSubmissions: 2, windowMs: 10 * MINUTE };
+    recordSubmission('old', 'First', NOW - 20 * MINUTE);
+    recordSubmission('a', 'Second', NOW - 3 * MINUTE);
+
+    expect(await assess({}, { rateLimit })).toMatchObject({ signals: [], recentSubmissions: 2 });
+    recordSubmission('b', 'Third', NOW - 2 * MINUTE);
+    expect(await assess({}, { rateLimit })).toMatchObject({ signals: ['rate-limited'], score: 0.4, recentSubmissions: 3 });
+    expect((await assess({}, { rateLimit: { ...rateLimit, mode: 'block' } })).signals).toEqual(['rate-limited']);
+    expect(await assess({}, { rateLimit: false })).toMatchObject({ signals: [], recentSubmissions: 1 });
+  });
+
+  it('flags text sent before within the duplicate window, ignoring case and spacing', async () => {
+    recordSubmission('earlier', 'fast   delivery', NOW - 5 * MINUTE);
+
+    expect(await assess()).toMatchObject({ signals: ['duplicate'], duplicateOf: 'earlier' });
+    expect((await assess({}, { duplicateWindowMs: MINUTE })).signals).toEqual([]);
+    expect((await assess({}, { duplicateWindowMs: false })).signals).toEqual([]);
+  });
+
+  it('combines signals as independent probabilities and records the challenge', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await assess(
+      { honeypotValue: 'x', startedAt: NOW - 100 },
+      { challenge: async () => { throw new Error('Worker crashed'); } }
+    );
+
+    expect(result.signals).toEqual(['honeypot', 'too-fast', 'challenge-failed']);
+    expect(result.score).toBe(0.98);
+    expect(result.challenge).toEqual({ passed: false });
+  });
+});
+
+describe('isRateLimited', () => {
+  it('blocks only in block mode once the window is full', () => {
+    const block = { rateLimit: { maxSubmissions: 2, windowMs: 10 * MINUTE, mode: 'block' as const } };
+    recordSubmission('a', 'One', NOW - 5 * MINUTE);
+
+    expect(isRateLimited(block, NOW)).toBe(false);
+    recordSubmission('b', 'Two', NOW - MINUTE);
+    expect(isRateLimited(block, NOW)).toBe(true);
+    expect(isRateLimited(block, NOW + 6 * MINUTE)).toBe(false);
+    expect(isRateLimited({ rateLimit: { ...block.rateLimit, mode: 'flag' } }, NOW)).toBe(false);
+    expect(isRateLimited({}, NOW)).toBe(false);
+  });
+});
+
+describe('createProofOfWorkChallenge', () => {
+  it('finds a nonce whose hash has the required prefix, or gives up after the iteration limit', async () => {
+    const result = await createProofOfWorkChallenge(1)('abc');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`abc:${result.token}`));
+
+    expect(result.passed).toBe(true);
+    expect(new Uint8Array(digest)[0]).toBeLessThan(16);
+    expect(await createProofOfWorkChallenge(4, 1)('abc')).toEqual({ passed: false });
+  });
+});
@@ -0,0 +1,164 @@
+import type { ChallengeResult, SpamAssessment, SpamSignal } from '../types/spam';
+import { readJSON, writeJSON } from './storage';
+
+export type ChallengeHook = (submissionId: string) => Promise<ChallengeResult>;
+
+export interface SpamProtectionOptions {
+  // Render a hidden field that only bots fill in
+  honeypot?: boolean;
+  // Submissions faster than this after the form appeared are flagged
+  minTimeToSubmitMs?: number;
+  // "flag" only annotates the payload; "block" refuses with a visible error
+  rateLimit?: false | { maxSubmissions: number; windowMs: number; mode?: 'flag' | 'block' };
+  // Flags feedback text identical to an earlier submission from this browser within the window
+  duplicateWindowMs?: number | false;
+  // Optional proof-of-work or captcha step run just before delivery
+  challenge?: ChallengeHook;
+}
+
+export const DEFAULT_SPAM_PROTECTION: Required<Omit<SpamProtectionOptions, 'challenge'>> = {
+  honeypot: true,
+  minTimeToSubmitMs: 3000,
+  rateLimit: { maxSubmissions: 3, windowMs: 10 * 60 * 1000, mode: 'flag' },
+  duplicateWindowMs: 24 * 60 * 60 * 1000
+};
+
+// How strongly each signal suggests automation; combined as independent probabilities
+const SIGNAL_WEIGHTS: Record<SpamSignal, number> = {
+  honeypot: 0.9,
+  'too-fast': 0.5,
+  'rate-limited': 0.4,
+  duplicate: 0.5,
+  'challenge-failed': 0.6
+};
+
+const HISTORY_KEY = 'sentiment-form:submission-history';
+const MAX_HISTORY = 50;
+
+interface HistoryEntry {
+  at: number;
+  submissionId: string;
+  contentHash: string;
+}
+
+// FNV-1a: cheap and synchronous; collisions only cause a false "duplicate" flag, never data loss
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (const char of text.toLowerCase().replace(/\s+/g, ' ').trim()) {
+    hash ^= char.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const getHistory = (): HistoryEntry[] => readJSON<HistoryEntry[]>(HISTORY_KEY, []);
+
+export const recordSubmission = (submissionId: string, text: string, now: number = Date.now()): void => {
+  const history = [...getHistory(), { at: now, submissionId, contentHash: hashText(text) }];
+  writeJSON(HISTORY_KEY, history.slice(-MAX_HISTORY));
+};
+
+export const resolveSpamProtection = (options: SpamProtectionOptions = {}) => ({
+  ...DEFAULT_SPAM_PROTECTION,
+  ...options
+});
+
+// True when the browser has already used up its submissions and the deployment blocks rather than flags
+export const isRateLimited = (options: SpamProtectionOptions = {}, now: number = Date.now()): boolean => {
+  const { rateLimit } = resolveSpamProtection(options);
+  if (!rateLimit || rateLimit.mode !== 'block') {
+    return false;
+  }
+  const recent = getHistory().filter((entry) => now - entry.at < rateLimit.windowMs);
+  return recent.length >= rateLimit.maxSubmissions;
+};
+
+interface AssessmentInput {
+  submissionId: string;
+  text: string;
+  honeypotValue: string;
+  startedAt: number;
+  now?: number;
+}
+
+export const assessSubmission = async (
+  input: AssessmentInput,
+  options: SpamProtectionOptions = {}
+): Promise<SpamAssessment> => {
+  const config = resolveSpamProtection(options);
+  const now = input.now ?? Date.now();
+  const history = getHistory();
+  const signals: SpamSignal[] = [];
+
+  const honeypotFilled = config.honeypot && input.honeypotValue.trim() !== '';
+  if (honeypotFilled) {
+    signals.push('honeypot');
+  }
+
+  const timeToSubmitMs = now - input.startedAt;
+  if (timeToSubmitMs < config.minTimeToSubmitMs) {
+    signals.push('too-fast');
+  }
+
+  let recentSubmissions = 1;
+  if (config.rateLimit) {
+    const { windowMs, maxSubmissions } = config.rateLimit;
+    recentSubmissions += history.filter((entry) => now - entry.at < windowMs).length;
+    if (recentSubmissions > maxSubmissions) {
+      signals.push('rate-limited');
+    }
+  }
+
+  let duplicateOf: string | undefined;
+  if (config.duplicateWindowMs && input.text.trim()) {
+    const windowMs = config.duplicateWindowMs;
+    const contentHash = hashText(input.text);
+    duplicateOf = history.find((entry) => entry.contentHash === contentHash && now - entry.at < windowMs)?.submissionId;
+    if (duplicateOf) {
+      signals.push('duplicate');
+    }
+  }
+
+  let challenge: ChallengeResult | undefined;
+  if (options.challenge) {
+    try {
+      challenge = await options.challenge(input.submissionId);
+    } catch (error) {
+      console.error('Spam challenge failed to run:', error);
+      challenge = { passed: false };
+    }
+    if (!challenge.passed) {
+      signals.push('challenge-failed');
+    }
+  }
+
+  const score = 1 - signals.reduce((clean, signal) => clean * (1 - SIGNAL_WEIGHTS[signal]), 1);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    signals,
+    timeToSubmitMs,
+    honeypotFilled,
+    recentSubmissions,
+    duplicateOf,
+    challenge
+  };
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Built-in challenge: find a nonce so that sha256(`${submissionId}:${nonce}`) starts with `difficulty` zero hex digits.
+// Receivers verify with a single hash; each extra digit makes the client ~16x slower.
+export const createProofOfWorkChallenge = (difficulty = 4, maxIterations = 2_000_000): ChallengeHook =>
+  async (submissionId) => {
+    const prefix = '0'.repeat(difficulty);
+    for (let nonce = 0; nonce < maxIterations; nonce++) {
+      if ((await sha256Hex(`${submissionId}:${nonce}`)).startsWith(prefix)) {
+        return { passed: true, token: String(nonce) };
+      }
+    }
+    return { passed: false };
+  };
@@ -0,0 +1,63 @@
+import type { FormErrors } from '../types/feedback';
+import type { FormField, FormSchema, FormStep } from '../types/formSchema';
+import type { Translate } from '../i18n';
+import { isFieldVisible, RATING_FIELD, type FieldValues } from './formSchema';
+
+// Schemas without steps get one page holding the rating and every field. For stepped schemas the rating
+// joins the first step and fields missing from every step join the last one, so nothing required is unreachable.
+export const resolveSteps = (schema: FormSchema): FormStep[] => {
+  const { steps } = schema;
+  if (!steps?.length) {
+    return [{ id: 'form', title: 'form.title', fields: [RATING_FIELD, ...schema.fields.map((field) => field.id)] }];
+  }
+
+  const listed = new Set(steps.flatMap((step) => step.fields));
+  const unlisted = schema.fields.map((field) => field.id).filter((id) => !listed.has(id));
+  return steps.map((step, index) => {
+    const fields = [
+      ...(index === 0 && !listed.has(RATING_FIELD) ? [RATING_FIELD] : []),
+      ...step.fields,
+      ...(index === steps.length - 1 ? unlisted : [])
+    ];
+    return fields.length === step.fields.length ? step : { ...step, fields };
+  });
+};
+
+export const stepHasRating = (step: FormStep): boolean => step.fields.includes(RATING_FIELD);
+
+export const getStepFields = (
+  schema: FormSchema,
+  step: FormStep,
+  values: FieldValues,
+  rating: number | null
+): FormField[] =>
+  step.fields
+    .map((id) => schema.fields.find((field) => field.id === id))
+    .filter((field): field is FormField => field !== undefined && isFieldVisible(field, values, rating));
+
+// A step whose fields are all hidden is skipped, so visibility conditions can branch between pages
+export const getActiveSteps = (schema: FormSchema, values: FieldValues, rating: number | null): FormStep[] =>
+  resolveSteps(schema).filter(
+    (step) => stepHasRating(step) || getStepFields(schema, step, values, rating).length > 0
+  );
+
+// Narrows whole-form errors to one step and adds the rating requirement when the step asks for it
+export const getStepErrors = (
+  schema: FormSchema,
+  step: FormStep,
+  values: FieldValues,
+  rating: number | null,
+  formErrors: FormErrors,
+  t: Translate
+): FormErrors => {
+  const errors: FormErrors = {};
+  if (stepHasRating(step) && rating === null) {
+    errors[RATING_FIELD] = t('validation.ratingRequired');
+  }
+  for (const field of getStepFields(schema, step, values, rating)) {
+    if (formErrors[field.id]) {
+      errors[field.id] = formErrors[field.id];
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,28 @@
+// localStorage helpers that never throw: private mode, quota errors and corrupt JSON degrade to the fallback
+
+export const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeJSON = (key: string, value: unknown): boolean => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(`Unable to persist "${key}":`, error);
+    return false;
+  }
+};
+
+export const removeItem = (key: string): void => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Storage unavailable: nothing to remove
+  }
+};
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FeedbackData } from '../types/feedback';
+import { enqueueSubmission, flushSubmissionQueue, getQueuedSubmissions } from './submissionQueue';
+
+const payload = { submissionId: 'abc' } as FeedbackData;
+const TARGET = 'webhook https://example.test/webhook';
+
+describe('enqueueSubmission', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('reports whether the entry was stored', () => {
+    expect(enqueueSubmission(payload, TARGET)).toBe(true);
+    expect(enqueueSubmission(payload, TARGET)).toBe(true);
+    expect(getQueuedSubmissions()).toHaveLength(1);
+
+    window.localStorage.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    expect(enqueueSubmission(payload, TARGET)).toBe(false);
+  });
+});
+
+describe('flushSubmissionQueue', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('schedules nothing while offline and waits out another tab’s lock', async () => {
+    const send = vi.fn(async () => ({ success: true }));
+    enqueueSubmission(payload, TARGET);
+    window.localStorage.setItem(
+      'sentiment-form:submission-queue',
+      JSON.stringify(getQueuedSubmissions().map((entry) => ({ ...entry, nextAttemptAt: 0 })))
+    );
+
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(await flushSubmissionQueue(send, TARGET)).toBeNull();
+    vi.restoreAllMocks();
+
+    const expiresAt = Date.now() + 30_000;
+    window.localStorage.setItem(`sentiment-form:submission-queue-lock:${TARGET}`, JSON.stringify({ owner: 'other-tab', expiresAt }));
+    expect(await flushSubmissionQueue(send, TARGET)).toBeGreaterThanOrEqual(expiresAt);
+    expect(send).not.toHaveBeenCalled();
+
+    window.localStorage.removeItem(`sentiment-form:submission-queue-lock:${TARGET}`);
+    expect(await flushSubmissionQueue(send, TARGET)).toBeNull();
+    expect(send).toHaveBeenCalledWith(payload);
+  });
+
+  it('leaves entries queued for another target alone', async () => {
+    const send = vi.fn(async () => ({ success: true }));
+    enqueueSubmission(payload, 'slack https://hooks.slack.test/abc');
+    window.localStorage.setItem(
+      'sentiment-form:submission-queue',
+      JSON.stringify(getQueuedSubmissions().map((entry) => ({ ...entry, nextAttemptAt: 0 })))
+    );
+
+    expect(await flushSubmissionQueue(send, TARGET)).toBeNull();
+    expect(send).not.toHaveBeenCalled();
+    expect(getQueuedSubmissions()).toHaveLength(1);
+  });
+});
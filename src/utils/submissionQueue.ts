@@ -0,0 +1,158 @@
+import type { FeedbackData, WebhookResponse } from '../types/feedback';
+import { readJSON, removeItem, writeJSON } from './storage';
+
+export interface QueuedSubmission {
+  id: string;
+  payload: FeedbackData;
+  // The delivery target (adapter and URL) the form that queued it sends to
+  target: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export type SubmissionSender = (data: FeedbackData) => Promise<WebhookResponse>;
+
+const QUEUE_KEY = 'sentiment-form:submission-queue';
+const DELIVERED_KEY = 'sentiment-form:delivered-ids';
+const LOCK_KEY = 'sentiment-form:submission-queue-lock';
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+// A tab that crashes mid-flush must not hold the lock forever
+const LOCK_TTL_MS = 30 * 1000;
+const MAX_DELIVERED_IDS = 200;
+
+export const createSubmissionId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)]
+export const computeBackoffDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+export const getQueuedSubmissions = (): QueuedSubmission[] =>
+  readJSON<QueuedSubmission[]>(QUEUE_KEY, []);
+
+const saveQueue = (queue: QueuedSubmission[]): boolean => writeJSON(QUEUE_KEY, queue);
+
+const getDeliveredIds = (): string[] => readJSON<string[]>(DELIVERED_KEY, []);
+
+const markDelivered = (id: string): void => {
+  const delivered = getDeliveredIds().filter((deliveredId) => deliveredId !== id);
+  delivered.push(id);
+  writeJSON(DELIVERED_KEY, delivered.slice(-MAX_DELIVERED_IDS));
+};
+
+const removeFromQueue = (id: string): void => {
+  saveQueue(getQueuedSubmissions().filter((entry) => entry.id !== id));
+};
+
+// Resolves false when the entry could not be stored (quota exceeded, storage disabled): nothing will retry it
+export const enqueueSubmission = (payload: FeedbackData, target: string, lastError?: string): boolean => {
+  const queue = getQueuedSubmissions();
+  const id = payload.submissionId;
+
+  if (queue.some((entry) => entry.id === id) || getDeliveredIds().includes(id)) {
+    return true;
+  }
+
+  queue.push({
+    id,
+    payload,
+    target,
+    attempts: 1,
+    nextAttemptAt: Date.now() + computeBackoffDelay(1),
+    lastError
+  });
+  return saveQueue(queue);
+};
+
+// One lock per target, so forms sending to different endpoints flush side by side
+const lockKey = (target: string): string => `${LOCK_KEY}:${target}`;
+
+const acquireLock = (target: string, owner: string): boolean => {
+  const lock = readJSON<{ owner: string; expiresAt: number } | null>(lockKey(target), null);
+  if (lock && lock.owner !== owner && lock.expiresAt > Date.now()) {
+    return false;
+  }
+  writeJSON(lockKey(target), { owner, expiresAt: Date.now() + LOCK_TTL_MS });
+  return true;
+};
+
+const releaseLock = (target: string, owner: string): void => {
+  const lock = readJSON<{ owner: string } | null>(lockKey(target), null);
+  if (lock?.owner === owner) {
+    removeItem(lockKey(target));
+  }
+};
+
+// Entries queued before targets were stored have none; any form may send them
+const isForTarget = (entry: QueuedSubmission, target: string): boolean =>
+  entry.target === undefined || entry.target === target;
+
+const nextAttemptTime = (target: string): number | null => {
+  const queue = getQueuedSubmissions().filter((entry) => isForTarget(entry, target));
+  if (queue.length === 0) {
+    return null;
+  }
+  return Math.min(...queue.map((entry) => entry.nextAttemptAt));
+};
+
+const lockOwner = createSubmissionId();
+const flushingTargets = new Set<string>();
+
+// Sends every due entry queued for `target` once; entries for other targets wait for a form that sends there.
+// Resolves with the time to flush again, or null when there is nothing to schedule: no entries for the target, the
+// browser is offline (the `online` event flushes) or a flush for the target is already running in this tab (that
+// flush reports the next time to its own caller).
+export const flushSubmissionQueue = async (send: SubmissionSender, target: string): Promise<number | null> => {
+  if (flushingTargets.has(target) || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return null;
+  }
+  if (!acquireLock(target, lockOwner)) {
+    // Another tab is flushing; look again once its lock would have expired
+    const next = nextAttemptTime(target);
+    return next === null ? null : Math.max(next, Date.now() + LOCK_TTL_MS);
+  }
+
+  flushingTargets.add(target);
+  try {
+    const due = getQueuedSubmissions().filter((entry) => isForTarget(entry, target) && entry.nextAttemptAt <= Date.now());
+
+    for (const entry of due) {
+      // Another tab may have delivered this entry since we read the queue
+      if (getDeliveredIds().includes(entry.id)) {
+        removeFromQueue(entry.id);
+        continue;
+      }
+
+      const result = await send(entry.payload);
+
+      if (result.success) {
+        markDelivered(entry.id);
+        removeFromQueue(entry.id);
+      } else if (result.retryable === false) {
+        console.error('Dropping queued feedback rejected by the webhook:', entry.id, result.message);
+        removeFromQueue(entry.id);
+      } else {
+        const attempts = entry.attempts + 1;
+        saveQueue(getQueuedSubmissions().map((queued) =>
+          queued.id === entry.id
+            ? { ...queued, attempts, nextAttemptAt: Date.now() + computeBackoffDelay(attempts), lastError: result.message }
+            : queued
+        ));
+      }
+    }
+  } finally {
+    flushingTargets.delete(target);
+    releaseLock(target, lockOwner);
+  }
+
+  return nextAttemptTime(target);
+};
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getSurveyClosedReason, loadSurveyDefinition, matchSurveyPath, validateSurveyDefinition } from './survey';
+
+const DEFINITION = { id: 'app-nps', scale: 'nps-11', delivery: { webhookUrl: 'https://example.test/hook' } };
+
+vi.mock('../config/surveys', () => ({
+  BUNDLED_SURVEYS: [{ id: 'checkout', scale: 'csat-5', delivery: { webhookUrl: 'https://example.test/checkout' } }]
+}));
+
+const serve = (status: number, body: unknown, contentType = 'application/json') =>
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': contentType } })));
+
+describe('matchSurveyPath', () => {
+  it('reads the survey id below the base URL', () => {
+    expect(matchSurveyPath('/s/app-nps', '/')).toBe('app-nps');
+    expect(matchSurveyPath('/feedback/s/caf%C3%A9/', '/feedback/')).toBe('café');
+    expect(matchSurveyPath('/s/', '/')).toBeNull();
+    expect(matchSurveyPath('/s/app-nps/results', '/')).toBeNull();
+    expect(matchSurveyPath('/other/s/app-nps', '/feedback/')).toBeNull();
+  });
+});
+
+describe('validateSurveyDefinition', () => {
+  it('names the properties a definition gets wrong', () => {
+    expect(validateSurveyDefinition(DEFINITION, 'app-nps')).toEqual([]);
+    expect(validateSurveyDefinition(
+      { ...DEFINITION, scale: 'nps-10', theme: 'neon', closing: { endsAt: 'soon' } },
+      'other'
+    )).toEqual([
+      'Expected "id" to be "other"',
+      'Invalid value for "scale"',
+      'Invalid value for "theme"',
+      'Invalid value for "closing"'
+    ]);
+    expect(validateSurveyDefinition({ id: 'app-nps' }, 'app-nps')).toEqual(['Invalid value for "delivery"']);
+  });
+});
+
+describe('getSurveyClosedReason', () => {
+  const now = Date.parse('2026-06-01T12:00:00Z');
+
+  it('closes by hand, after the end date or at the response cap', () => {
+    expect(getSurveyClosedReason(undefined, { now })).toBeNull();
+    expect(getSurveyClosedReason({ closed: true }, { now })).toBe('closed');
+    expect(getSurveyClosedReason({ endsAt: '2026-06-01T11:59:59Z' }, { now })).toBe('ended');
+    expect(getSurveyClosedReason({ endsAt: '2026-06-02T00:00:00Z' }, { now })).toBeNull();
+    expect(getSurveyClosedReason({ maxResponses: 100 }, { now, responseCount: 100 })).toBe('full');
+    expect(getSurveyClosedReason({ maxResponses: 100 }, { now, responseCount: null })).toBeNull();
+  });
+});
+
+describe('loadSurveyDefinition', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('serves bundled definitions without a request', async () => {
+    serve(500, {});
+
+    expect(await loadSurveyDefinition('checkout')).toMatchObject({ id: 'checkout', scale: 'csat-5' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('fetches other definitions from the config URL', async () => {
+    serve(200, DEFINITION);
+
+    expect(await loadSurveyDefinition('app-nps', { configUrl: 'https://cdn.test/surveys/' })).toEqual(DEFINITION);
+    expect(fetch).toHaveBeenCalledWith('https://cdn.test/surveys/app-nps.json', expect.any(Object));
+  });
+
+  it('treats a 404 or a single-page fallback as an unknown survey and rejects invalid definitions', async () => {
+    serve(404, {});
+    expect(await loadSurveyDefinition('missing')).toBeNull();
+
+    serve(200, '<!DOCTYPE html>', 'text/html');
+    expect(await loadSurveyDefinition('missing')).toBeNull();
+
+    serve(200, { id: 'app-nps' });
+    await expect(loadSurveyDefinition('app-nps')).rejects.toThrow('Invalid value for "delivery"');
+  });
+});
@@ -0,0 +1,182 @@
+import type { FormSchema } from '../types/formSchema';
+import type { AttachmentEncoding } from '../types/attachment';
+import { DELIVERY_ADAPTERS, type AdapterId } from '../delivery';
+import { isThemeMode, type BrandTheme, type ThemeMode } from '../theme';
+import { RATING_SCALES } from '../config/ratingScales';
+import { BUNDLED_SURVEYS } from '../config/surveys';
+import type { MetadataOptions } from './metadata';
+import type { PrivacyOptions } from './privacy';
+import type { ThankYouOptions } from './thankYou';
+
+export interface SurveyClosing {
+  // ISO 8601 date-time after which no more responses are taken
+  endsAt?: string;
+  // Response cap; needs `responseCountUrl` to know how many responses there are
+  maxResponses?: number;
+  // Answers a GET with { "count": <responses so far> }
+  responseCountUrl?: string;
+  // Closes the survey whatever the date and count
+  closed?: boolean;
+  // Message key or literal text shown instead of the default explanation
+  message?: string;
+}
+
+// One survey served at /s/:id. Everything is plain JSON so definitions can be bundled or fetched at runtime;
+// text properties hold message keys or literal text.
+export interface SurveyDefinition {
+  id: string;
+  title?: string;
+  subtitle?: string;
+  // Id of a built-in rating scale, e.g. "nps-11"; defaults to the emoji scale
+  scale?: string;
+  // Questions, steps and branches; defaults to the standard feedback form
+  schema?: FormSchema;
+  locale?: string;
+  theme?: ThemeMode;
+  brand?: BrandTheme;
+  delivery: {
+    webhookUrl: string;
+    adapter?: AdapterId;
+    attachmentEncoding?: AttachmentEncoding;
+  };
+  thankYou?: ThankYouOptions;
+  privacy?: PrivacyOptions;
+  metadata?: MetadataOptions;
+  // Added to every response's `context`, next to `surveyId`
+  context?: Record<string, string>;
+  closing?: SurveyClosing;
+}
+
+export type SurveyClosedReason = 'closed' | 'ended' | 'full';
+
+// Where definitions that are not bundled are fetched from, as <url>/<id>.json; defaults to /surveys in `public`
+const ENV_SURVEY_CONFIG_URL = import.meta.env?.VITE_SURVEY_CONFIG_URL;
+
+const SURVEY_PATH = /^\/s\/([^/]+)\/?$/;
+
+// The survey id in a /s/:surveyId path below the app's base URL, or null for any other path
+export const matchSurveyPath = (pathname: string, base = import.meta.env?.BASE_URL ?? '/'): string | null => {
+  const prefix = base.replace(/\/$/, '');
+  if (!pathname.startsWith(prefix)) {
+    return null;
+  }
+  const match = SURVEY_PATH.exec(pathname.slice(prefix.length));
+  if (!match) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+};
+
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Check = (value) => typeof value === 'string';
+const isOptional = (check: Check): Check => (value) => value === undefined || check(value);
+const isDate: Check = (value) => isString(value) && !Number.isNaN(Date.parse(value as string));
+
+const isSchema: Check = (value) =>
+  isRecord(value) &&
+  Array.isArray(value.fields) &&
+  value.fields.every((field) => isRecord(field) && isString(field.id) && isString(field.type) && isString(field.label)) &&
+  isOptional((steps) => Array.isArray(steps) && steps.every((step) => isRecord(step) && Array.isArray(step.fields)))(value.steps);
+
+const isDelivery: Check = (value) =>
+  isRecord(value) &&
+  isString(value.webhookUrl) &&
+  isOptional((adapter) => Object.keys(DELIVERY_ADAPTERS).includes(adapter as string))(value.adapter) &&
+  isOptional((encoding) => encoding === 'base64' || encoding === 'multipart')(value.attachmentEncoding);
+
+const isClosing: Check = (value) =>
+  isRecord(value) &&
+  isOptional(isDate)(value.endsAt) &&
+  isOptional((max) => Number.isInteger(max) && (max as number) > 0)(value.maxResponses) &&
+  isOptional(isString)(value.responseCountUrl) &&
+  isOptional((closed) => typeof closed === 'boolean')(value.closed) &&
+  isOptional(isString)(value.message);
+
+// The properties a mistake in a hand-written definition is likely to break; the rest is passed through
+const SURVEY_CHECKS: Partial<Record<keyof SurveyDefinition, Check>> = {
+  title: isOptional(isString),
+  subtitle: isOptional(isString),
+  scale: isOptional((scale) => isString(scale) && scale as string in RATING_SCALES),
+  schema: isOptional(isSchema),
+  locale: isOptional(isString),
+  theme: isOptional(isThemeMode),
+  brand: isOptional(isRecord),
+  delivery: isDelivery,
+  context: isOptional((context) => isRecord(context) && Object.values(context).every(isString)),
+  closing: isOptional(isClosing)
+};
+
+// Returns one message per problem; an empty list means the value can be used as the definition of survey `id`
+export const validateSurveyDefinition = (value: unknown, id: string): string[] => {
+  if (!isRecord(value)) {
+    return ['Survey definition must be a JSON object'];
+  }
+  const problems = value.id === id ? [] : [`Expected "id" to be "${id}"`];
+  return problems.concat(
+    Object.entries(SURVEY_CHECKS)
+      .filter(([key, check]) => !check(value[key]))
+      .map(([key]) => `Invalid value for "${key}"`)
+  );
+};
+
+// Bundled definitions win; others are fetched from `configUrl`. Resolves null when no survey has this id and
+// rejects on network errors and invalid definitions.
+export const loadSurveyDefinition = async (
+  id: string,
+  { configUrl = ENV_SURVEY_CONFIG_URL || '/surveys', signal }: { configUrl?: string; signal?: AbortSignal } = {}
+): Promise<SurveyDefinition | null> => {
+  let definition: unknown = BUNDLED_SURVEYS.find((survey) => isRecord(survey) && survey.id === id);
+  if (!definition) {
+    const response = await fetch(`${configUrl.replace(/\/$/, '')}/${encodeURIComponent(id)}.json`, {
+      headers: { Accept: 'application/json' },
+      signal
+    });
+    // Single-page hosting answers unknown paths with index.html instead of a 404
+    if (response.status === 404 || (response.ok && !response.headers.get('Content-Type')?.includes('json'))) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Survey "${id}" could not be loaded: ${response.status} ${response.statusText}`);
+    }
+    definition = await response.json();
+  }
+  const problems = validateSurveyDefinition(definition, id);
+  if (problems.length > 0) {
+    throw new Error(`Survey "${id}" has an invalid definition: ${problems.join('; ')}`);
+  }
+  return definition as SurveyDefinition;
+};
+
+// An unreachable counter leaves the survey open: a missed cap is better than turning everyone away
+export const fetchResponseCount = async (url: string, signal?: AbortSignal): Promise<number | null> => {
+  try {
+    const response = await fetch(url, { signal });
+    const body = response.ok ? ((await response.json()) as { count?: unknown }) : null;
+    return typeof body?.count === 'number' ? body.count : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getSurveyClosedReason = (
+  closing: SurveyClosing | undefined,
+  { now = Date.now(), responseCount = null }: { now?: number; responseCount?: number | null } = {}
+): SurveyClosedReason | null => {
+  if (closing?.closed) {
+    return 'closed';
+  }
+  if (closing?.endsAt && Date.parse(closing.endsAt) <= now) {
+    return 'ended';
+  }
+  if (closing?.maxResponses !== undefined && responseCount !== null && responseCount >= closing.maxResponses) {
+    return 'full';
+  }
+  return null;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fillUrlTemplate, resolveThankYouScreen, type ThankYouOptions } from './thankYou';
+
+const OPTIONS: ThankYouOptions = {
+  title: 'Thanks!',
+  message: 'We read every response.',
+  screens: [
+    { branch: 'satisfied', actions: [{ label: 'Review us', url: 'https://reviews.test/acme' }] },
+    { ratings: [0, 1, 2, 3, 4, 5, 6], scale: 'nps-11', message: 'Sorry to hear that.', submitAnother: false }
+  ]
+};
+
+describe('resolveThankYouScreen', () => {
+  it('layers the first matching screen over the defaults', () => {
+    expect(resolveThankYouScreen(OPTIONS, 'emoji-3', { rating: 3, branch: 'satisfied' })).toEqual({
+      title: 'Thanks!',
+      message: 'We read every response.',
+      actions: [{ label: 'Review us', url: 'https://reviews.test/acme' }]
+    });
+    expect(resolveThankYouScreen(OPTIONS, 'nps-11', { rating: 2, branch: null })).toEqual({
+      title: 'Thanks!',
+      message: 'Sorry to hear that.',
+      submitAnother: false
+    });
+  });
+
+  it('falls back to the defaults when no screen matches the rating on this scale', () => {
+    expect(resolveThankYouScreen(OPTIONS, 'csat-5', { rating: 2, branch: null })).toEqual({
+      title: 'Thanks!',
+      message: 'We read every response.'
+    });
+    expect(resolveThankYouScreen(undefined, 'csat-5', { rating: 2, branch: null })).toEqual({});
+  });
+});
+
+describe('fillUrlTemplate', () => {
+  it('fills and encodes the receipt placeholders and leaves unknown ones alone', () => {
+    const receipt = { submissionId: 'abc', rating: 2, branch: null, queued: false, ticket: 'SUP 7/1' };
+
+    expect(fillUrlTemplate('https://help.test/t/{ticket}?r={rating}&id={submissionId}&x={other}', receipt))
+      .toBe('https://help.test/t/SUP%207%2F1?r=2&id=abc&x={other}');
+    expect(fillUrlTemplate('https://help.test/?t={ticket}', { ...receipt, ticket: undefined })).toBe('https://help.test/?t=');
+  });
+});
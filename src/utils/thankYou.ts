@@ -0,0 +1,81 @@
+export interface ThankYouLinkAction {
+  type?: 'link';
+  // Message key or literal text
+  label: string;
+  // May contain {submissionId}, {rating} and {ticket}, e.g. 'https://support.example.com/new?ref={ticket}'
+  url: string;
+  // Defaults to true
+  newTab?: boolean;
+  primary?: boolean;
+}
+
+// Opens the device's share sheet; copies `url` to the clipboard where the Web Share API is missing
+export interface ThankYouShareAction {
+  type: 'share';
+  label: string;
+  url: string;
+  text?: string;
+  primary?: boolean;
+}
+
+export type ThankYouAction = ThankYouLinkAction | ThankYouShareAction;
+
+export interface ThankYouScreen {
+  // Message keys or literal text; both may use {ticket} and {rating}
+  title?: string;
+  message?: string;
+  actions?: ThankYouAction[];
+  // Leaves for `url` after a countdown the respondent can cancel
+  redirect?: { url: string; afterSeconds: number };
+  // Shows "Submit another response"; defaults to true
+  submitAnother?: boolean;
+}
+
+// Applies when `ratings` includes the rating or `branch` names the response's rating branch
+export interface RatingThankYouScreen extends ThankYouScreen {
+  ratings?: number[];
+  branch?: string;
+  // Limits `ratings` to one rating scale
+  scale?: string;
+}
+
+// The top-level screen is the default; the first matching entry of `screens` is layered over it
+export interface ThankYouOptions extends ThankYouScreen {
+  screens?: RatingThankYouScreen[];
+}
+
+export interface SubmissionReceipt {
+  submissionId: string;
+  rating: number;
+  branch: string | null;
+  queued: boolean;
+  // From the receiver's reply; see WebhookResponse
+  message?: string;
+  ticket?: string;
+}
+
+export const resolveThankYouScreen = (
+  options: ThankYouOptions | undefined,
+  scaleId: string,
+  receipt: Pick<SubmissionReceipt, 'rating' | 'branch'>
+): ThankYouScreen => {
+  const { screens = [], ...defaults } = options ?? {};
+  const match = screens.find((screen) =>
+    (screen.branch !== undefined && screen.branch === receipt.branch) ||
+    ((screen.scale === undefined || screen.scale === scaleId) && screen.ratings?.includes(receipt.rating)));
+  if (!match) {
+    return defaults;
+  }
+  const { ratings: _ratings, branch: _branch, scale: _scale, ...screen } = match;
+  return { ...defaults, ...screen };
+};
+
+export const fillUrlTemplate = (url: string, receipt: SubmissionReceipt): string => {
+  const values: Record<string, string> = {
+    submissionId: receipt.submissionId,
+    rating: String(receipt.rating),
+    ticket: receipt.ticket ?? ''
+  };
+  return url.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? encodeURIComponent(values[name]) : match);
+};
@@ -0,0 +1,114 @@
+import type { FeedbackData } from '../types/feedback';
+
+// Raised when a FeedbackData property becomes required, is renamed or removed, or changes meaning; new optional
+// data keeps the version. 2 added the required `attachments` list.
+export const FEEDBACK_SCHEMA_VERSION = 2;
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = (value) => typeof value === 'string';
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isStringArray: Check = (value) => Array.isArray(value) && value.every(isString);
+
+const isSentiment: Check = (value) =>
+  isRecord(value) &&
+  isNumber(value.score) &&
+  isNumber(value.polarity) &&
+  ['positive', 'neutral', 'negative'].includes(value.label as string) &&
+  isStringArray(value.positiveTerms) &&
+  isStringArray(value.negativeTerms);
+
+const SPAM_SIGNALS = ['honeypot', 'too-fast', 'rate-limited', 'duplicate', 'challenge-failed'];
+
+const isSpamAssessment: Check = (value) =>
+  isRecord(value) &&
+  isNumber(value.score) &&
+  Array.isArray(value.signals) &&
+  value.signals.every((signal) => SPAM_SIGNALS.includes(signal as string)) &&
+  isNumber(value.timeToSubmitMs) &&
+  isBoolean(value.honeypotFilled) &&
+  isNumber(value.recentSubmissions) &&
+  (value.duplicateOf === undefined || isString(value.duplicateOf)) &&
+  (value.challenge === undefined || (isRecord(value.challenge) && isBoolean(value.challenge.passed)));
+
+const REDACTION_KINDS = ['email', 'phone', 'card'];
+
+const isConsentRecord: Check = (value) =>
+  isRecord(value) &&
+  isString(value.text) &&
+  isString(value.policyVersion) &&
+  (value.policyUrl === undefined || isString(value.policyUrl)) &&
+  isString(value.givenAt) && !Number.isNaN(Date.parse(value.givenAt as string));
+
+const isNullableString: Check = (value) => value === null || isString(value);
+const isNonNegative: Check = (value) => isNumber(value) && (value as number) >= 0;
+
+// Either the base64 content or the name of the multipart part carrying the file
+const isAttachment: Check = (value) =>
+  isRecord(value) &&
+  ['id', 'fieldId', 'name', 'type'].every((key) => isString(value[key])) &&
+  isNonNegative(value.size) &&
+  (isString(value.data) || isString(value.part));
+
+const UTM_PARAMETERS = ['source', 'medium', 'campaign', 'term', 'content'];
+
+const isDeviceInfo: Check = (value) =>
+  isRecord(value) &&
+  ['mobile', 'tablet', 'desktop'].includes(value.type as string) &&
+  isString(value.userAgent) &&
+  ['viewportWidth', 'viewportHeight', 'screenWidth', 'screenHeight', 'pixelRatio'].every((key) => isNonNegative(value[key])) &&
+  isBoolean(value.touch);
+
+const isMetadata: Check = (value) =>
+  isRecord(value) &&
+  isNullableString(value.pageUrl) &&
+  isNullableString(value.referrer) &&
+  isRecord(value.utm) &&
+  Object.entries(value.utm).every(([name, utm]) => UTM_PARAMETERS.includes(name) && isString(utm)) &&
+  (value.device === null || isDeviceInfo(value.device)) &&
+  isNullableString(value.timeZone) &&
+  isNonNegative(value.timeToCompleteMs) &&
+  isNullableString(value.sessionId);
+
+// Mapped over keyof FeedbackData so adding a payload property without a check fails to compile
+const FEEDBACK_DATA_CHECKS: { [K in keyof Required<FeedbackData>]: Check } = {
+  schemaVersion: (value) => value === FEEDBACK_SCHEMA_VERSION,
+  submissionId: (value) => isString(value) && value !== '',
+  rating: isNumber,
+  ratingLabel: isString,
+  ratingScale: isString,
+  branch: (value) => value === null || isString(value),
+  feedback: isString,
+  name: isString,
+  email: isString,
+  consent: (value) => value === null || isConsentRecord(value),
+  redactions: (value) => isRecord(value) &&
+    Object.entries(value).every(([kind, count]) => REDACTION_KINDS.includes(kind) && isNumber(count)),
+  answers: (value) => isRecord(value) &&
+    Object.values(value).every((answer) => isString(answer) || isBoolean(answer) || isStringArray(answer)),
+  attachments: (value) => Array.isArray(value) && value.every(isAttachment),
+  sentiment: isSentiment,
+  sentimentMismatch: isBoolean,
+  locale: isString,
+  spam: isSpamAssessment,
+  metadata: isMetadata,
+  context: (value) => isRecord(value) && Object.values(value).every(isString),
+  timestamp: (value) => isString(value) && !Number.isNaN(Date.parse(value as string))
+};
+
+// Returns one message per invalid or missing property; an empty list means the payload is a FeedbackData
+export const validateFeedbackData = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['Payload must be a JSON object'];
+  }
+
+  return Object.entries(FEEDBACK_DATA_CHECKS)
+    .filter(([key, check]) => !check(value[key]))
+    .map(([key]) => (key in value ? `Invalid value for "${key}"` : `Missing "${key}"`));
+};
+
+export const isFeedbackData = (value: unknown): value is FeedbackData =>
+  validateFeedbackData(value).length === 0;
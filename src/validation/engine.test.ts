@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createValidationEngine } from '.';
+import { createTranslator } from '../i18n';
+import type { FormField, FormSchema } from '../types/formSchema';
+
+const t = createTranslator('en');
+
+const EMAIL: FormField = { id: 'email', type: 'email', label: 'Email', required: true, validation: { blockDisposableEmail: true } };
+const COMMENT: FormField = { id: 'comment', type: 'textarea', label: 'Comment', validation: { minLength: 5, blockProfanity: true } };
+const SCHEMA: FormSchema = { fields: [EMAIL, COMMENT] };
+
+describe('createValidationEngine', () => {
+  it('runs required, built-in and per-deployment rules in order', () => {
+    const engine = createValidationEngine({ rules: { comment: { maxLength: 8 } } });
+
+    expect(engine.validateFields(SCHEMA, { email: '', comment: '' }, null, t)).toEqual({ email: 'This field is required' });
+    expect(engine.validateField(EMAIL, { email: 'ada@' }, null, t)).toBe('Please enter a valid email address');
+    expect(engine.validateField(COMMENT, { comment: 'hey' }, null, t)).toBe('Must be at least 5 characters');
+    expect(engine.validateField(COMMENT, { comment: 'far too long' }, null, t)).toBe('Must be at most 8 characters');
+  });
+
+  it('blocks disposable domains, including subdomains and configured extras', () => {
+    const engine = createValidationEngine({ disposableDomains: ['throwaway.test'] });
+
+    expect(engine.validateField(EMAIL, { email: 'ada@mailinator.com' }, null, t)).toBe(
+      'Please use a permanent email address, not a temporary one'
+    );
+    expect(engine.validateField(EMAIL, { email: 'ada@inbox.throwaway.test' }, null, t)).toBeDefined();
+    expect(engine.validateField(EMAIL, { email: 'ada@example.com' }, null, t)).toBeUndefined();
+  });
+
+  it('finds profanity behind accents and digit swaps but not inside other words', () => {
+    const engine = createValidationEngine();
+
+    expect(engine.validateField(COMMENT, { comment: 'Total 5h1t service' }, null, t)).toBe('Please remove offensive language');
+    expect(engine.validateField(COMMENT, { comment: 'Una MIÉRDA de envío' }, null, t)).toBeDefined();
+    expect(engine.validateField(COMMENT, { comment: 'Delivered to Scunthorpe on time' }, null, t)).toBeUndefined();
+  });
+
+  it('checks patterns and skips one that does not compile, warning once', () => {
+    const engine = createValidationEngine();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const orderId: FormField = { id: 'orderId', type: 'text', label: 'Order', validation: { pattern: '^A-\\d+$' } };
+    const broken: FormField = { ...orderId, validation: { pattern: '^A-(\\d+$' } };
+
+    expect(engine.validateField(orderId, { orderId: 'B-1' }, null, t)).toBe('Please enter a valid value');
+    expect(engine.validateField(orderId, { orderId: 'A-1' }, null, t)).toBeUndefined();
+    expect(engine.validateField(broken, { orderId: 'B-1' }, null, t)).toBeUndefined();
+    expect(engine.validateField(broken, { orderId: 'C-1' }, null, t)).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('uses field messages keyed by rule or validator id', () => {
+    const engine = createValidationEngine({
+      validators: { noAcme: { validate: (value, { message }) => (value === 'acme' ? message('validation.pattern') : undefined) } }
+    });
+    const field: FormField = {
+      id: 'company',
+      type: 'text',
+      label: 'Company',
+      validation: { validators: ['noAcme'] },
+      messages: { noAcme: 'Competitors need not apply' }
+    };
+
+    expect(engine.validateField(field, { company: ' acme ' }, null, t)).toBe('Competitors need not apply');
+  });
+
+  it('leaves async validators to validateFieldAsync and treats failures as a pass', async () => {
+    const check = vi.fn(async (value: unknown) => (value === 'taken@example.com' ? 'Already registered' : undefined));
+    const engine = createValidationEngine({
+      validators: {
+        unique: { async: true, validate: check },
+        broken: { async: true, validate: () => Promise.reject(new Error('offline')) }
+      }
+    });
+    const field: FormField = { ...EMAIL, validation: { validators: ['broken', 'unique'] } };
+    const signal = new AbortController().signal;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(engine.hasAsyncValidators(field)).toBe(true);
+    expect(engine.validateField(field, { email: 'taken@example.com' }, null, t)).toBeUndefined();
+    expect(check).not.toHaveBeenCalled();
+    expect(await engine.validateFieldAsync(field, { email: 'taken@example.com' }, null, t, signal)).toBe('Already registered');
+    expect(await engine.validateFieldAsync(field, { email: 'new@example.com' }, null, t, signal)).toBeUndefined();
+  });
+});
@@ -0,0 +1,226 @@
+import type { Attachment } from '../types/attachment';
+import type { FormErrors } from '../types/feedback';
+import type { FieldValue, FormField, FormSchema, ValidationRules } from '../types/formSchema';
+import type { Translate } from '../i18n';
+import { getVisibleFields, isFieldFilled, type FieldValues } from '../utils/formSchema';
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_FILES,
+  formatFileSize,
+  isAttachmentList,
+  matchesAccept
+} from '../utils/attachments';
+import type { AsyncValidator, FieldValidator, SyncValidator, ValidationConfig, ValidatorContext } from './types';
+import { DISPOSABLE_EMAIL_DOMAINS, PROFANITY } from './wordLists';
+
+export const DEFAULT_DEBOUNCE_MS = 400;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validateEmail = (email: string): boolean => EMAIL_REGEX.test(email);
+
+export const isDisposableEmail = (email: string, domains: ReadonlySet<string>): boolean => {
+  const parts = email.toLowerCase().split('@').pop()?.split('.') ?? [];
+  return parts.some((_, index) => domains.has(parts.slice(index).join('.')));
+};
+
+// Strips accents and undoes digit-for-letter swaps such as "5h1t" before matching whole words
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', $: 's' };
+
+export const containsProfanity = (text: string, words: ReadonlySet<string>): boolean =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => LEET[char])
+    .split(/[^\p{L}]+/u)
+    .some((word) => words.has(word));
+
+const textRule = (check: (text: string, context: ValidatorContext) => string | undefined): SyncValidator => ({
+  validate: (value, context) => (typeof value === 'string' ? check(value, context) : undefined)
+});
+
+const fileRule = (check: (files: Attachment[], context: ValidatorContext) => string | undefined): SyncValidator => ({
+  validate: (value, context) => (isAttachmentList(value) ? check(value, context) : undefined)
+});
+
+// Rule ids double as message keys in `FieldMessages`
+const createBuiltInValidators = (config: ValidationConfig): Record<string, SyncValidator> => {
+  const disposableDomains = new Set([...DISPOSABLE_EMAIL_DOMAINS, ...(config.disposableDomains ?? [])]);
+  const blockedWords = new Set([...PROFANITY, ...(config.blockedWords ?? [])].map((word) => word.toLowerCase()));
+  // Compiled once per source; a pattern that does not compile (say, in a fetched survey definition) is skipped
+  const patterns = new Map<string, RegExp | null>();
+  const compilePattern = (source: string): RegExp | null => {
+    if (!patterns.has(source)) {
+      try {
+        patterns.set(source, new RegExp(source));
+      } catch (error) {
+        console.warn(`Invalid validation pattern "${source}"; treating values as valid.`, error);
+        patterns.set(source, null);
+      }
+    }
+    return patterns.get(source) ?? null;
+  };
+
+  return {
+    minLength: textRule((text, { rules, message }) =>
+      rules.minLength !== undefined && text.length < rules.minLength
+        ? message('validation.minLength', { count: rules.minLength })
+        : undefined),
+    maxLength: textRule((text, { rules, message }) =>
+      rules.maxLength !== undefined && text.length > rules.maxLength
+        ? message('validation.maxLength', { count: rules.maxLength })
+        : undefined),
+    email: textRule((text, { field, message }) =>
+      field.type === 'email' && !validateEmail(text) ? message('validation.email') : undefined),
+    pattern: textRule((text, { rules, message }) => {
+      const pattern = rules.pattern === undefined ? null : compilePattern(rules.pattern);
+      return pattern && !pattern.test(text) ? message('validation.pattern') : undefined;
+    }),
+    blockDisposableEmail: textRule((text, { rules, message }) =>
+      rules.blockDisposableEmail && isDisposableEmail(text, disposableDomains)
+        ? message('validation.disposableEmail')
+        : undefined),
+    blockProfanity: textRule((text, { rules, message }) =>
+      rules.blockProfanity && containsProfanity(text, blockedWords) ? message('validation.profanity') : undefined),
+    // File limits name the first offending file; readability, size and count limits apply to every file field
+    readable: fileRule((files, { message }) => {
+      const unreadable = files.find((file) => file.unreadable);
+      return unreadable ? message('validation.fileUnreadable', { name: unreadable.name }) : undefined;
+    }),
+    accept: fileRule((files, { rules, message }) => {
+      const refused = files.find((file) => !matchesAccept(file, rules.accept));
+      return refused ? message('validation.fileType', { name: refused.name }) : undefined;
+    }),
+    maxFileSize: fileRule((files, { rules, message }) => {
+      const limit = rules.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+      const oversized = files.find((file) => file.size > limit);
+      return oversized ? message('validation.fileSize', { name: oversized.name, size: formatFileSize(limit) }) : undefined;
+    }),
+    maxFiles: fileRule((files, { rules, message }) => {
+      const limit = rules.maxFiles ?? DEFAULT_MAX_FILES;
+      return files.length > limit ? message('validation.maxFiles', { count: limit }) : undefined;
+    })
+  };
+};
+
+const BUILT_IN_ORDER = [
+  'minLength',
+  'maxLength',
+  'email',
+  'pattern',
+  'blockDisposableEmail',
+  'blockProfanity',
+  'readable',
+  'accept',
+  'maxFileSize',
+  'maxFiles'
+];
+
+export interface ValidationEngine {
+  // Required plus every sync rule; the first failing rule's message wins
+  validateField: (field: FormField, values: FieldValues, rating: number | null, t: Translate) => string | undefined;
+  // Hidden fields are never validated, so they cannot block submission
+  validateFields: (schema: FormSchema, values: FieldValues, rating: number | null, t: Translate) => FormErrors;
+  hasAsyncValidators: (field: FormField) => boolean;
+  // Callers run this only once `validateField` passes
+  validateFieldAsync: (
+    field: FormField,
+    values: FieldValues,
+    rating: number | null,
+    t: Translate,
+    signal: AbortSignal
+  ) => Promise<string | undefined>;
+  debounceMs: number;
+}
+
+export const createValidationEngine = (config: ValidationConfig = {}): ValidationEngine => {
+  const registry: Record<string, FieldValidator> = { ...config.validators, ...createBuiltInValidators(config) };
+  const warned = new Set<string>();
+
+  const getRules = (field: FormField): ValidationRules => ({ ...field.validation, ...config.rules?.[field.id] });
+
+  const getValidators = (field: FormField, rules: ValidationRules): Array<[string, FieldValidator]> =>
+    [...BUILT_IN_ORDER, ...(rules.validators ?? [])].flatMap((id): Array<[string, FieldValidator]> => {
+      if (registry[id]) {
+        return [[id, registry[id]]];
+      }
+      if (!warned.has(id)) {
+        warned.add(id);
+        console.error(`Unknown validator "${id}" on field "${field.id}". Register it in the validation option.`);
+      }
+      return [];
+    });
+
+  const createContext = (
+    id: string,
+    field: FormField,
+    rules: ValidationRules,
+    values: FieldValues,
+    rating: number | null,
+    t: Translate
+  ): ValidatorContext => ({
+    field,
+    rules,
+    values,
+    rating,
+    t,
+    message: (fallbackKey, params) => t(field.messages?.[id] ?? fallbackKey, params)
+  });
+
+  const inputOf = (value: FieldValue): FieldValue => (typeof value === 'string' ? value.trim() : value);
+
+  const validateField: ValidationEngine['validateField'] = (field, values, rating, t) => {
+    if (!isFieldFilled(field, values)) {
+      return field.required ? t(field.messages?.required ?? 'validation.required') : undefined;
+    }
+    const rules = getRules(field);
+    for (const [id, validator] of getValidators(field, rules)) {
+      if (validator.async) {
+        continue;
+      }
+      const error = validator.validate(inputOf(values[field.id]), createContext(id, field, rules, values, rating, t));
+      if (error) {
+        return error;
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    validateField,
+    validateFields: (schema, values, rating, t) => {
+      const errors: FormErrors = {};
+      for (const field of getVisibleFields(schema, values, rating)) {
+        const error = validateField(field, values, rating, t);
+        if (error) {
+          errors[field.id] = error;
+        }
+      }
+      return errors;
+    },
+    hasAsyncValidators: (field) => getValidators(field, getRules(field)).some(([, validator]) => validator.async),
+    validateFieldAsync: async (field, values, rating, t, signal) => {
+      const rules = getRules(field);
+      const asyncValidators = getValidators(field, rules)
+        .filter((entry): entry is [string, AsyncValidator] => entry[1].async === true);
+      for (const [id, validator] of asyncValidators) {
+        try {
+          const error = await validator.validate(inputOf(values[field.id]), {
+            ...createContext(id, field, rules, values, rating, t),
+            signal
+          });
+          if (error) {
+            return error;
+          }
+        } catch (error) {
+          if (!signal.aborted) {
+            console.warn(`Validator "${id}" failed on field "${field.id}"; treating the value as valid.`, error);
+          }
+        }
+      }
+      return undefined;
+    },
+    debounceMs: config.debounceMs ?? DEFAULT_DEBOUNCE_MS
+  };
+};
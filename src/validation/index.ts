@@ -0,0 +1,11 @@
+export { createValidationEngine, containsProfanity, isDisposableEmail, validateEmail, DEFAULT_DEBOUNCE_MS } from './engine';
+export { DISPOSABLE_EMAIL_DOMAINS, PROFANITY } from './wordLists';
+export type { ValidationEngine } from './engine';
+export type {
+  AsyncValidator,
+  AsyncValidatorContext,
+  FieldValidator,
+  SyncValidator,
+  ValidationConfig,
+  ValidatorContext
+} from './types';
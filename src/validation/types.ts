@@ -0,0 +1,48 @@
+import type { FieldValue, FormField, ValidationRules } from '../types/formSchema';
+import type { FieldValues } from '../utils/formSchema';
+import type { Translate, TranslationParams } from '../i18n';
+
+export interface ValidatorContext {
+  field: FormField;
+  // The field's schema rules with the deployment's overrides applied
+  rules: ValidationRules;
+  values: FieldValues;
+  rating: number | null;
+  t: Translate;
+  // Translates the field's own message for this validator when it has one, otherwise `fallbackKey`
+  message: (fallbackKey: string, params?: TranslationParams) => string;
+}
+
+export interface AsyncValidatorContext extends ValidatorContext {
+  // Aborted when the value changes again or the form unmounts
+  signal: AbortSignal;
+}
+
+// Validators receive trimmed text and are skipped for empty values, which only the required rule judges.
+// They return a translated message when the value is invalid.
+export interface SyncValidator {
+  async?: false;
+  validate: (value: FieldValue, context: ValidatorContext) => string | undefined;
+}
+
+// Runs after every sync rule passes, debounced while the respondent types. A rejected promise counts as a pass,
+// so an unreachable service never blocks a submission.
+export interface AsyncValidator {
+  async: true;
+  validate: (value: FieldValue, context: AsyncValidatorContext) => Promise<string | undefined>;
+}
+
+export type FieldValidator = SyncValidator | AsyncValidator;
+
+export interface ValidationConfig {
+  // Custom validators by id; fields opt in through `validation.validators` in the schema or in `rules`
+  validators?: Record<string, FieldValidator>;
+  // Per-deployment rule overrides keyed by field id, merged over the schema's `validation`
+  rules?: Record<string, ValidationRules>;
+  // Added to the built-in disposable email domains
+  disposableDomains?: string[];
+  // Added to the built-in profanity list
+  blockedWords?: string[];
+  // Quiet period before async validators run; defaults to 400 ms
+  debounceMs?: number;
+}
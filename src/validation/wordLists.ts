@@ -0,0 +1,67 @@
+// Throwaway inbox providers. Subdomains match too, so "x.mailinator.com" is blocked along with "mailinator.com".
+export const DISPOSABLE_EMAIL_DOMAINS: string[] = [
+  '10minutemail.com',
+  '1secmail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'grr.la',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'inboxkitten.com',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempail.com',
+  'tempmail.dev',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'yopmail.com',
+  'yopmail.fr'
+];
+
+// Kept short and unambiguous: words that are offensive in any context, in the locales we ship
+export const PROFANITY: string[] = [
+  // English
+  'asshole',
+  'bastard',
+  'bitch',
+  'bullshit',
+  'cunt',
+  'dickhead',
+  'fuck',
+  'fucked',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'shit',
+  'shitty',
+  // Spanish
+  'cabron',
+  'cono',
+  'gilipollas',
+  'hijoputa',
+  'joder',
+  'mierda',
+  'pendejo',
+  'puta',
+  'puto'
+];
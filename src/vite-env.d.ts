@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_WEBHOOK_URL: string
+  readonly VITE_SURVEY_CONFIG_URL?: string
   // more env variables...
 }
 
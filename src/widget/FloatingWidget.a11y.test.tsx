@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import FloatingWidget from './FloatingWidget';
+import { findA11yViolations } from '../test/axe';
+
+describe('FloatingWidget accessibility', () => {
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('moves focus into the dialog and returns it to the launcher on Escape', async () => {
+    const { container } = render(<FloatingWidget webhookUrl="https://example.test/webhook" locale="en" draft={false} />);
+    const launcher = screen.getByRole('button', { name: 'Feedback' });
+
+    fireEvent.click(launcher);
+    const dialog = screen.getByRole('dialog', { name: 'Feedback' });
+    expect(launcher.getAttribute('aria-expanded')).toBe('true');
+    expect(document.activeElement).toBe(dialog);
+    expect(await findA11yViolations(container)).toEqual([]);
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(launcher);
+  });
+
+  it('keeps Tab inside the open dialog', () => {
+    render(<FloatingWidget webhookUrl="https://example.test/webhook" locale="en" draft={false} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Feedback' }));
+
+    const close = screen.getByRole('button', { name: 'Close' });
+    const next = screen.getByRole('button', { name: 'Next' });
+    next.focus();
+    fireEvent.keyDown(next, { key: 'Tab' });
+    expect(document.activeElement).toBe(close);
+
+    fireEvent.keyDown(close, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(next);
+  });
+});
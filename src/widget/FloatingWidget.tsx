@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCommentDots, faXmark } from '@fortawesome/free-solid-svg-icons';
+import EmojiRatingForm, { type EmojiRatingFormProps } from '../components/SentimentAnalysisForm';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme } from '../hooks/useTheme';
+import { focusRingClasses } from '../theme/classes';
+
+interface FloatingWidgetProps extends EmojiRatingFormProps {
+  buttonLabel?: string;
+}
+
+const FOCUSABLE = [
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[href]',
+  '[tabindex]'
+].map((selector) => `${selector}:not([tabindex="-1"])`).join(', ');
+
+// Launcher button pinned to the corner of the host page that opens the form in a modal
+const FloatingWidget: React.FC<FloatingWidgetProps> = ({ buttonLabel, ...formProps }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const { dir, t } = useI18n(formProps.locale);
+  // The launcher sits outside the form, so it resolves the same theme for its own colours
+  const { style } = useTheme(formProps.theme ?? 'system', formProps.brand);
+  const label = buttonLabel ?? t('widget.button');
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const launcherRef = useRef<HTMLButtonElement>(null);
+
+  // Focus moves into the dialog on open and back to the launcher on close
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    dialogRef.current?.focus();
+    const launcher = launcherRef.current;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      launcher?.focus();
+    };
+  }, [isOpen]);
+
+  // Keeps Tab cycling inside the modal while it is open
+  const handleDialogKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const dialog = dialogRef.current;
+    if (e.key !== 'Tab' || !dialog) {
+      return;
+    }
+    const focusable = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (focusable.length === 0) {
+      return;
+    }
+    // Inside the widget's shadow root document.activeElement would only report the host element
+    const active = (dialog.getRootNode() as Document | ShadowRoot).activeElement;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (e.shiftKey && (active === first || active === dialog)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div dir={dir} style={style}>
+      <button
+        ref={launcherRef}
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={`fixed bottom-4 end-4 z-[2147483000] flex items-center gap-2 bg-[var(--sf-primary)] hover:bg-[var(--sf-primary-hover)] text-[color:var(--sf-on-primary)] px-4 py-3 rounded-full shadow-lg transition-colors font-medium text-sm ${focusRingClasses}`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        <FontAwesomeIcon icon={faCommentDots} />
+        {label}
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-[2147483001] flex items-center justify-center bg-black/50 p-4"
+          onClick={(e: React.MouseEvent<HTMLDivElement>) => {
+            if (e.target === e.currentTarget) {
+              setIsOpen(false);
+            }
+          }}
+        >
+          <div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={label}
+            tabIndex={-1}
+            onKeyDown={handleDialogKeyDown}
+            className="relative w-full max-w-sm focus:outline-none"
+          >
+            {/* Overhangs the card corner so it stays clear of the theme toggle */}
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className={`absolute -top-3 -end-3 z-10 h-8 w-8 rounded-full flex items-center justify-center shadow border bg-[var(--sf-surface)] border-[color:var(--sf-border)] text-[color:var(--sf-text-subtle)] hover:text-[color:var(--sf-text)] ${focusRingClasses}`}
+              aria-label={t('widget.close')}
+            >
+              <FontAwesomeIcon icon={faXmark} />
+            </button>
+            <EmojiRatingForm {...formProps} layout="embedded" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FloatingWidget;
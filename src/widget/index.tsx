@@ -0,0 +1,79 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { config, dom } from '@fortawesome/fontawesome-svg-core';
+import EmojiRatingForm, { type EmojiRatingFormProps } from '../components/SentimentAnalysisForm';
+import FloatingWidget from './FloatingWidget';
+import { RATING_SCALES } from '../config/ratingScales';
+import type { RatingScale } from '../types/ratingScale';
+import widgetStyles from './widget.css?inline';
+
+// Sinks for the `analytics` option, e.g. SentimentForm.createWebhookSink('https://example.com/events')
+export { createConsoleSink, createDataLayerSink, createWebhookSink } from '../analytics';
+
+// Font Awesome normally injects its CSS into document.head, which cannot reach into a shadow root
+config.autoAddCss = false;
+
+export interface MountOptions extends Omit<EmojiRatingFormProps, 'scale' | 'layout'> {
+  // A RatingScale object or the id of a built-in scale, e.g. "nps-11"
+  scale?: RatingScale | string;
+  // "inline" renders the form inside the element; "floating" renders a corner button that opens it in a modal
+  mode?: 'inline' | 'floating';
+  buttonLabel?: string;
+}
+
+interface MountedWidget {
+  root: ReactDOM.Root;
+  container: HTMLElement;
+}
+
+const mountedWidgets = new WeakMap<HTMLElement, MountedWidget>();
+
+const resolveScale = (scale: MountOptions['scale']): RatingScale | undefined => {
+  if (typeof scale !== 'string') {
+    return scale;
+  }
+  if (!RATING_SCALES[scale]) {
+    console.error(`Unknown rating scale "${scale}". Falling back to the default scale.`);
+  }
+  return RATING_SCALES[scale];
+};
+
+export const unmount = (element: HTMLElement): void => {
+  const mounted = mountedWidgets.get(element);
+  if (!mounted) {
+    return;
+  }
+  mounted.root.unmount();
+  mounted.container.parentNode?.replaceChildren();
+  mountedWidgets.delete(element);
+};
+
+export const mount = (element: HTMLElement, options: MountOptions = {}): { unmount: () => void } => {
+  if (!(element instanceof HTMLElement)) {
+    throw new Error('SentimentForm.mount expects a DOM element to render into.');
+  }
+
+  // Remounting the same element replaces the previous instance and its options
+  unmount(element);
+
+  const shadowRoot = element.shadowRoot ?? element.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = `${dom.css()}\n${widgetStyles}`;
+  const container = document.createElement('div');
+  shadowRoot.replaceChildren(style, container);
+
+  const { mode = 'inline', scale, buttonLabel, ...formProps } = options;
+  const props = { ...formProps, scale: resolveScale(scale) };
+
+  const root = ReactDOM.createRoot(container);
+  root.render(
+    <React.StrictMode>
+      {mode === 'floating'
+        ? <FloatingWidget {...props} buttonLabel={buttonLabel} />
+        : <EmojiRatingForm {...props} layout="embedded" />}
+    </React.StrictMode>
+  );
+
+  mountedWidgets.set(element, { root, container });
+  return { unmount: () => unmount(element) };
+};
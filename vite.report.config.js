@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Node build of the reporting CLI: `npm run build:report` emits dist/cli/report.js,
+// which `npm run report -- <file>` runs.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist/cli',
+    ssr: 'cli/report.ts',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'report.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
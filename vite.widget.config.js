@@ -0,0 +1,27 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import tailwindcss from 'tailwindcss'
+
+// Library build of the embeddable widget: `npm run build:widget` emits
+// dist/widget/sentiment-form.umd.js (window.SentimentForm) and an ES module.
+// React is bundled in so host pages need nothing but the script tag.
+export default defineConfig({
+  plugins: [react()],
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  css: {
+    postcss: {
+      plugins: [tailwindcss()],
+    },
+  },
+  build: {
+    outDir: 'dist/widget',
+    lib: {
+      entry: 'src/widget/index.tsx',
+      name: 'SentimentForm',
+      formats: ['umd', 'es'],
+      fileName: (format) => `sentiment-form.${format}.js`,
+    },
+  },
+})